@@ -0,0 +1,250 @@
+// Types shared by the Worker (worker/) and the client (src/): what MemoryDO's RPC methods
+// return and what the /api/* routes send back. Type declarations only, so either side can
+// import them without pulling in code.
+
+export type Role = "system" | "user" | "assistant";
+
+export type Conversation = {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+/**
+ * A stored chat message. Threads are trees: editing a message or regenerating a reply adds a
+ * sibling, and the thread shows one branch, from its head message back to the root. Ids
+ * increase within a thread, so a parent's id is always lower than its children's.
+ */
+export type StoredMessage = {
+  id: number;
+  parentId: number | null;
+  role: Role;
+  content: string;
+  tokens: number;
+  createdAt: number;
+  // A reply that was stopped, or failed, before the model finished (it can be continued)
+  truncated?: boolean;
+  // History reads only: ids of this message and its siblings, oldest first, when there are several
+  alternatives?: number[];
+};
+
+// GET /api/history/search filters; `from` / `to` are epoch ms, both inclusive
+export type MessageSearchFilters = {
+  role?: "user" | "assistant";
+  from?: number;
+  to?: number;
+  conversationId?: string;
+  limit?: number;
+};
+
+// GET /api/history/search hit, best match first; `snippet` wraps matched terms in « »
+export type MessageHit = {
+  id: number;
+  conversationId: string;
+  conversationTitle: string;
+  role: Role;
+  snippet: string;
+  createdAt: number;
+};
+
+// Running summary of the active branch up to and including message `coveredThrough`
+export type Summary = { text: string; coveredThrough: number };
+
+// GET /api/history (and MemoryDO.getHistory): the active branch, oldest first
+export type HistoryPage = { history: StoredMessage[]; summary: Summary; hasMore: boolean };
+
+// Arguments of a tool call, as the model wrote them
+export type ToolArgs = Record<string, string | number | boolean | null>;
+
+export type ToolCall = { step?: number; tool: string; args: ToolArgs; output: string };
+
+// "running" only appears in progress events, while the step is being worked on
+export type StepResult = { title: string; output: string; status: "complete" | "failed" | "running" };
+
+// What a finished TaskWorkflow returns (and what the registry keeps as `output`)
+export type TaskOutput = { plan: string[]; steps: StepResult[]; result: string; trace: ToolCall[] };
+
+// GET /api/task/events: what TaskWorkflow publishes to its TaskProgressDO, in order
+export type ProgressEvent =
+  | { id: string; type: "status"; status: string }
+  | { id: string; type: "plan"; plan: string[] }
+  | { id: string; type: "step"; index: number; title: string; status: StepResult["status"]; output?: string }
+  | { id: string; type: "complete"; output: TaskOutput }
+  | { id: string; type: "failed"; error: string };
+
+// Server-side record of a TaskWorkflow instance started by this user
+export type TaskRecord = {
+  id: string;
+  goal: string;
+  createdAt: number;
+  updatedAt: number;
+  status: string; // last known workflow status (queued | running | complete | errored | ...)
+  output?: TaskOutput | null;
+  error?: string | null;
+};
+
+/**
+ * POST /api/chat/stream events, in order: `start`, any number of `delta`s, `usage`, `citations`
+ * (when documents were used), `error` (when the model failed mid-reply), then always `done`.
+ * Each is one SSE frame: `id: <seq>`, `event: <type>` and `data: <the event as JSON>`.
+ */
+export type ChatStreamEvent =
+  // questionId: the user message being answered (POST /api/chat/stop takes it)
+  | { type: "start"; conversationId: string; questionId: number; model: string }
+  | { type: "delta"; text: string }
+  | { type: "usage"; tokens: number } // cost-weighted, as counted against the daily quota
+  | { type: "citations"; citations: Citation[] }
+  | { type: "error"; error: string }
+  // replyId is null when nothing was stored (no text arrived; a new question is then removed too);
+  // truncated when the reply was stopped or failed before the model finished
+  | { type: "done"; questionId: number | null; replyId: number | null; truncated: boolean };
+
+// WebSocket /api/chat/ws, client -> server (JSON text frames; "ping" is answered with "pong")
+export type ChatSocketRequest =
+  // A streamed turn like POST /api/chat/stream; `turnId` (chosen by the client) tags its events
+  | {
+      type: "send";
+      turnId: string;
+      conversationId?: string;
+      message: string;
+      taskId?: string;
+      model?: string;
+      params?: unknown;
+    }
+  | { type: "cancel"; questionId: number } // like POST /api/chat/stop
+  | { type: "typing"; conversationId: string }; // relayed to the user's other tabs
+
+// WebSocket /api/chat/ws, server -> every open tab of the user
+export type ChatSocketEvent =
+  // A message was stored or extended, whichever route or tab it came from
+  | { type: "message"; conversationId: string; message: StoredMessage }
+  // An event of a turn sent over a socket (all tabs get them; the sender matches its turnId)
+  | { type: "stream"; turnId: string; conversationId: string; event: ChatStreamEvent }
+  | { type: "typing"; conversationId: string }
+  | { type: "task"; task: TaskRecord } // a task finished
+  // A request that could not be handled (for `send`: nothing was stored)
+  | { type: "error"; turnId?: string; error: string };
+
+// Long-term memory: one embedded question/answer turn (vectors stay in the DO)
+export type Memory = {
+  id: string;
+  conversationId: string;
+  question: string;
+  answer: string;
+  createdAt: number;
+};
+
+export type MemoryHit = Memory & { score: number };
+
+export type DocumentInfo = { id: string; name: string; chars: number; chunks: number; createdAt: number };
+
+export type DocumentHit = { docId: string; name: string; chunk: number; content: string; score: number };
+
+// Document excerpt an answer drew on; `index` matches the [n] markers in the reply
+export type Citation = { index: number; docId: string; name: string; chunk: number; snippet: string };
+
+export type ModelParams = { max_tokens: number; temperature: number; top_p?: number };
+
+// GET /api/models entry
+export type ModelInfo = {
+  id: string;
+  label: string;
+  contextWindow: number; // tokens (prompt + completion)
+  maxOutputTokens: number;
+  defaults: ModelParams;
+  streaming: boolean;
+  // Multiplier applied to token usage before it counts against the daily quota (70B = 1)
+  costWeight: number;
+  // Tried in order when this model keeps failing (see worker/inference.ts)
+  fallbacks: string[];
+};
+
+// One request (or task workflow model call) added to the user's usage stats
+export type UsageEntry = { route: string; model: string | null; tokens: number; latencyMs: number; error: boolean };
+
+// GET /api/usage: the user's metered requests over the last `days` days (UTC), most recent first.
+// `tokens` are cost-weighted, as counted against the daily quota
+export type UsageReport = {
+  days: number;
+  totals: { requests: number; errors: number; tokens: number };
+  byDay: { day: string; requests: number; errors: number; tokens: number }[];
+  byModel: { model: string; requests: number; tokens: number }[];
+  byRoute: { route: string; requests: number; errors: number; tokens: number; avgLatencyMs: number }[];
+  quota: { dailyTokens: number; usedToday: number };
+};
+
+// A chat system prompt the user can pick. `prompt` is a template (see PromptTemplate.variables);
+// every save adds a version, and "default" is the built-in persona (editable, not deletable)
+export type Persona = {
+  id: string;
+  name: string;
+  prompt: string;
+  version: number; // 0 while the built-in text is unchanged
+  builtIn: boolean;
+  updatedAt: number;
+};
+
+// GET /api/personas
+export type PersonaList = { personas: Persona[]; selected: string };
+
+// A task workflow prompt (GET /api/prompts); `version` 0 means the built-in `defaultText`
+export type PromptTemplate = {
+  key: string;
+  label: string;
+  text: string;
+  defaultText: string;
+  version: number;
+  variables: string[]; // {{name}} placeholders the template may use
+};
+
+// GET /api/prompts/versions: earlier texts of a persona or task prompt, newest first
+export type PromptVersion = { version: number; text: string; createdAt: number };
+
+/**
+ * One thread in an export. Messages refer to each other by position, so the tree survives
+ * the messages getting new ids on import: `parent` is the index of the parent message (null
+ * for a root; omitted means the previous message) and `head` the index of the active branch's
+ * last message (omitted means the last message). `summary.coveredMessages` counts messages
+ * along the active branch from its root.
+ */
+export type ExportedConversation = {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  head?: number;
+  summary?: { text: string; coveredMessages: number };
+  messages: { role: Role; content: string; createdAt: number; parent?: number | null; truncated?: boolean }[];
+};
+
+// GET /api/history/export?format=json, and what POST /api/history/import takes back
+export type ChatExport = {
+  version: 1;
+  exportedAt: number;
+  conversations: ExportedConversation[];
+  tasks: TaskRecord[];
+};
+
+// POST /api/history/import: what was added
+export type ImportResult = { conversations: number; messages: number; tasks: number };
+
+export type ApiErrorCode =
+  | "bad_request"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "method_not_allowed"
+  | "conflict"
+  | "payload_too_large"
+  | "upgrade_required"
+  | "rate_limited"
+  | "quota_exceeded"
+  | "internal_error"
+  | "model_unavailable";
+
+// The body of every /api error response. requestId is also the X-Request-Id header; some errors
+// add details (429: retryAfter seconds, 502: the failed model attempts)
+export type ApiErrorBody = {
+  error: { code: ApiErrorCode; message: string; requestId: string; retryAfter?: number; attempts?: unknown[] };
+};
@@ -1,11 +1,86 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type {
+  ApiErrorBody,
+  ChatSocketEvent,
+  ChatSocketRequest,
+  ChatStreamEvent,
+  Citation,
+  Conversation,
+  DocumentInfo,
+  Memory,
+  MessageHit,
+  ModelInfo,
+  Persona,
+  PersonaList,
+  ProgressEvent,
+  PromptTemplate,
+  PromptVersion,
+  StepResult,
+  TaskOutput,
+  TaskRecord,
+  UsageReport,
+} from "../shared/types";
+
+// `id` is set once a message is stored (used to page back through history, edit and regenerate);
+// `alternatives` lists it and its siblings (other edits / regenerations) when there are several;
+// `truncated` marks a reply that was stopped or failed before the model finished
+type Msg = {
+  id?: number;
+  role: "user" | "assistant";
+  content: string;
+  citations?: Citation[];
+  alternatives?: number[];
+  truncated?: boolean;
+};
 
-type Msg = { role: "user" | "assistant"; content: string };
+// A dropped chat stream is resumed (GET /api/chat/resume) up to this many times, waiting a little
+// longer before each attempt
+const MAX_RESUME_ATTEMPTS = 5;
+const RESUME_DELAY_MS = 1000;
+
+// WebSocket /api/chat/ws: reconnect delay, keepalive interval, and how long a typing notice lasts
+const SOCKET_RETRY_MS = 3000;
+const SOCKET_PING_MS = 30_000;
+const TYPING_NOTICE_MS = 3000;
+
+// Reads a ChatStreamEvent stream (see shared/types.ts): each frame's JSON data line and its id
+async function readEvents(
+  body: ReadableStream<Uint8Array>,
+  handle: (event: ChatStreamEvent, id: number | null) => void
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let idx;
+    while ((idx = buffer.indexOf("\n\n")) !== -1) {
+      const frame = buffer.slice(0, idx);
+      buffer = buffer.slice(idx + 2);
+
+      const lines = frame.split("\n");
+      const data = lines.find((line) => line.startsWith("data:"));
+      const id = lines.find((line) => line.startsWith("id:"));
+      if (!data) continue;
+      try {
+        handle(JSON.parse(data.slice(5)) as ChatStreamEvent, id ? Number(id.slice(3)) : null);
+      } catch {
+        // ignore malformed frames
+      }
+    }
+  }
+}
 
+// A finished task's output, or what progress events have filled in so far
 type TaskStatus = {
   status: string; // queued | running | complete | failed | ...
   error: string | null;
-  output: any;
+  output: Partial<TaskOutput> | null;
 };
 
 type TaskItem = {
@@ -15,6 +90,70 @@ type TaskItem = {
   createdAt: number;
 };
 
+function isFinished(status: string | undefined) {
+  return status === "complete" || status === "errored" || status === "terminated" || status === "failed";
+}
+
+// Folds a progress event into the task status the details panel renders
+function applyProgress(prev: TaskStatus, ev: ProgressEvent): TaskStatus {
+  const output = prev.output ?? {};
+  switch (ev.type) {
+    case "status":
+      return { ...prev, status: ev.status };
+    case "plan":
+      return { ...prev, status: "running", output: { ...output, plan: ev.plan } };
+    case "step": {
+      const steps: StepResult[] = [...(output.steps ?? [])];
+      steps[ev.index] = { title: ev.title, status: ev.status, output: ev.output ?? "" };
+      return { ...prev, status: "running", output: { ...output, steps } };
+    }
+    case "complete":
+      return { status: "complete", error: null, output: ev.output };
+    case "failed":
+      return { ...prev, status: "errored", error: ev.error };
+  }
+}
+
+// Inputs in the sidebar's search form
+const FIELD: React.CSSProperties = {
+  padding: "6px 8px",
+  borderRadius: 8,
+  border: "1px solid rgba(255,255,255,0.12)",
+  background: "rgba(255,255,255,0.06)",
+  color: "#e6e6e6",
+  fontSize: 12,
+  outline: "none",
+  minWidth: 0,
+};
+
+// Small buttons under a message (edit, regenerate, ‹ › between versions)
+const MSG_ACTION: React.CSSProperties = {
+  padding: "2px 8px",
+  borderRadius: 8,
+  border: "1px solid rgba(255,255,255,0.12)",
+  background: "transparent",
+  color: "#e6e6e6",
+  fontSize: 12,
+  cursor: "pointer",
+};
+
+// Search snippet with the matched terms (wrapped in « » by the server) highlighted
+function Snippet({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/[«»]/).map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} style={{ background: "rgba(234,179,8,0.35)", color: "inherit", borderRadius: 3 }}>
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
 function Pill({ text }: { text: string }) {
   const bg =
     text === "complete"
@@ -23,7 +162,7 @@ function Pill({ text }: { text: string }) {
       ? "rgba(59,130,246,0.15)"
       : text === "queued"
       ? "rgba(234,179,8,0.15)"
-      : text === "failed"
+      : text === "failed" || text === "errored"
       ? "rgba(239,68,68,0.15)"
       : "rgba(255,255,255,0.08)";
 
@@ -34,7 +173,7 @@ function Pill({ text }: { text: string }) {
       ? "rgba(59,130,246,0.35)"
       : text === "queued"
       ? "rgba(234,179,8,0.35)"
-      : text === "failed"
+      : text === "failed" || text === "errored"
       ? "rgba(239,68,68,0.35)"
       : "rgba(255,255,255,0.12)";
 
@@ -55,11 +194,247 @@ function Pill({ text }: { text: string }) {
   );
 }
 
+// Persona being edited in the settings drawer (no id: a new one)
+type PersonaDraft = { id?: string; name: string; prompt: string; builtIn?: boolean };
+
+/**
+ * Error text for a failed request: the message of the API's { error: { code, message, requestId } }
+ * body. Server errors add the request id, which finds the request in the logs.
+ */
+async function failureMessage(res: Response, fallback: string) {
+  const body = await res.text().catch(() => "");
+  try {
+    const { error } = JSON.parse(body) as ApiErrorBody;
+    if (error?.message) return res.status >= 500 ? `${error.message} (request ${error.requestId})` : error.message;
+  } catch {
+    // not an API response (e.g. a proxy error page)
+  }
+  return `${fallback} (${res.status})`;
+}
+
+async function postJson(url: string, body: unknown) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error(await failureMessage(res, "Request failed"));
+  return res;
+}
+
+/**
+ * Settings drawer: pick the persona chat answers with, edit personas (every save is a new
+ * version; earlier ones can be restored) and edit the task workflow's prompts.
+ */
+function SettingsDrawer({ onClose, onError }: { onClose: () => void; onError: (message: string) => void }) {
+  const [personas, setPersonas] = useState<PersonaList | null>(null);
+  const [prompts, setPrompts] = useState<PromptTemplate[]>([]);
+  const [draft, setDraft] = useState<PersonaDraft | null>(null);
+  const [versions, setVersions] = useState<PromptVersion[]>([]);
+  const [promptDrafts, setPromptDrafts] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    const [p, t] = await Promise.all([fetch("/api/personas"), fetch("/api/prompts")]);
+    if (!p.ok || !t.ok) throw new Error(await failureMessage(p.ok ? t : p, "Settings failed"));
+    setPersonas((await p.json()) as PersonaList);
+    const data = (await t.json()) as { prompts: PromptTemplate[] };
+    setPrompts(data.prompts);
+    setPromptDrafts(Object.fromEntries(data.prompts.map((x) => [x.key, x.text])));
+  }, []);
+
+  useEffect(() => {
+    load().catch((e) => onError((e as Error)?.message ?? "Settings error."));
+  }, [load, onError]);
+
+  async function run(action: () => Promise<void>) {
+    setSaving(true);
+    try {
+      await action();
+    } catch (e) {
+      onError((e as Error)?.message ?? "Settings error.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function editPersona(p: Persona) {
+    setDraft({ id: p.id, name: p.name, prompt: p.prompt, builtIn: p.builtIn });
+    setVersions([]);
+    const res = await fetch(`/api/personas/versions?id=${encodeURIComponent(p.id)}`);
+    if (res.ok) setVersions(((await res.json()) as { versions: PromptVersion[] }).versions);
+  }
+
+  const selectPersona = (id: string) =>
+    run(async () => {
+      await postJson("/api/personas/select", { id });
+      setPersonas((prev) => (prev ? { ...prev, selected: id } : prev));
+    });
+
+  const savePersona = (d: PersonaDraft) =>
+    run(async () => {
+      const res = await postJson("/api/personas", { id: d.id, name: d.name, prompt: d.prompt });
+      await load();
+      await editPersona((await res.json()) as Persona);
+    });
+
+  const deletePersona = (id: string) =>
+    run(async () => {
+      if (!confirm("Delete this persona and all its versions?")) return;
+      await postJson("/api/personas/delete", { id });
+      setDraft(null);
+      await load();
+    });
+
+  const savePrompt = (key: string, text: string) =>
+    run(async () => {
+      await postJson("/api/prompts", { key, text });
+      await load();
+    });
+
+  const label: React.CSSProperties = { fontSize: 12, opacity: 0.7, margin: "12px 0 6px" };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        right: 0,
+        bottom: 0,
+        width: "min(440px, 100%)",
+        zIndex: 10,
+        overflowY: "auto",
+        padding: 16,
+        background: "#0b0f17",
+        borderLeft: "1px solid rgba(255,255,255,0.12)",
+        boxShadow: "-12px 0 32px rgba(0,0,0,0.4)",
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <div style={{ fontWeight: 700 }}>Settings</div>
+        <button onClick={onClose} style={MSG_ACTION}>
+          Close
+        </button>
+      </div>
+
+      <div style={label}>Persona (system prompt used for chat)</div>
+      {personas?.personas.map((p) => (
+        <div key={p.id} style={{ display: "flex", alignItems: "center", gap: 8, padding: "4px 0", fontSize: 13 }}>
+          <input
+            type="radio"
+            checked={personas.selected === p.id}
+            onChange={() => selectPersona(p.id)}
+            disabled={saving}
+          />
+          <span style={{ flex: 1, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis" }}>
+            {p.name}
+            <span style={{ opacity: 0.5 }}>{p.version > 0 ? ` · v${p.version}` : " · built-in"}</span>
+          </span>
+          <button onClick={() => editPersona(p)} style={MSG_ACTION}>
+            Edit
+          </button>
+        </div>
+      ))}
+      <button onClick={() => (setDraft({ name: "", prompt: "" }), setVersions([]))} style={{ ...MSG_ACTION, marginTop: 6 }}>
+        + New persona
+      </button>
+
+      {draft && (
+        <div style={{ marginTop: 12, display: "flex", flexDirection: "column", gap: 6 }}>
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            disabled={draft.builtIn}
+            placeholder="Name"
+            style={FIELD}
+          />
+          <textarea
+            value={draft.prompt}
+            onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+            rows={6}
+            placeholder="You are…"
+            style={{ ...FIELD, resize: "vertical" }}
+          />
+          <div style={{ fontSize: 11, opacity: 0.55 }}>
+            Variables: {"{{user}}"} (your username), {"{{date}}"} (today), {"{{memories}}"} (recalled memories; added
+            after the prompt when not used)
+          </div>
+          <div style={{ display: "flex", gap: 6, justifyContent: "flex-end" }}>
+            {draft.id && !draft.builtIn && (
+              <button onClick={() => deletePersona(draft.id!)} disabled={saving} style={MSG_ACTION}>
+                Delete
+              </button>
+            )}
+            <button onClick={() => setDraft(null)} style={MSG_ACTION}>
+              Cancel
+            </button>
+            <button onClick={() => savePersona(draft)} disabled={saving || !draft.prompt.trim()} style={MSG_ACTION}>
+              {draft.id ? "Save new version" : "Create"}
+            </button>
+          </div>
+          {versions.length > 0 && (
+            <div style={{ fontSize: 12 }}>
+              <div style={{ opacity: 0.7, marginBottom: 4 }}>Versions</div>
+              {versions.map((v) => (
+                <div key={v.version} style={{ display: "flex", gap: 8, alignItems: "center", padding: "2px 0" }}>
+                  <span style={{ flex: 1, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }} title={v.text}>
+                    v{v.version} · {new Date(v.createdAt).toLocaleString()}
+                  </span>
+                  <button onClick={() => setDraft({ ...draft, prompt: v.text })} style={MSG_ACTION}>
+                    Restore
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div style={label}>Task prompts</div>
+      {prompts.map((p) => (
+        <div key={p.key} style={{ display: "flex", flexDirection: "column", gap: 6, marginBottom: 12 }}>
+          <div style={{ fontSize: 13 }}>
+            {p.label}
+            <span style={{ opacity: 0.5 }}>{p.version > 0 ? ` · v${p.version}` : " · built-in"}</span>
+          </div>
+          <textarea
+            value={promptDrafts[p.key] ?? p.text}
+            onChange={(e) => setPromptDrafts((prev) => ({ ...prev, [p.key]: e.target.value }))}
+            rows={4}
+            style={{ ...FIELD, resize: "vertical" }}
+          />
+          <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+            <span style={{ flex: 1, fontSize: 11, opacity: 0.55 }}>
+              {p.variables.map((v) => `{{${v}}}`).join(" ")}
+            </span>
+            <button
+              onClick={() => setPromptDrafts((prev) => ({ ...prev, [p.key]: p.defaultText }))}
+              style={MSG_ACTION}
+            >
+              Default
+            </button>
+            <button
+              onClick={() => savePrompt(p.key, promptDrafts[p.key] ?? p.text)}
+              disabled={saving || (promptDrafts[p.key] ?? p.text) === p.text}
+              style={MSG_ACTION}
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export default function App() {
   // ---------- Shared ----------
   const baseUrl = useMemo(() => "", []); // same origin
 
-  const [userId, setUserId] = useState("antony");
+  const [user, setUser] = useState<string | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
+  const [authForm, setAuthForm] = useState({ username: "", password: "" });
+  const [authLoading, setAuthLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // ---------- Chat ----------
@@ -67,21 +442,439 @@ export default function App() {
   const [messages, setMessages] = useState<Msg[]>([]);
   const [chatLoading, setChatLoading] = useState(false);
   const [chatMode, setChatMode] = useState<"send" | "stream" | null>(null);
+  // The running stream: aborted when the thread changes; `questionId` (from its start event) is
+  // what POST /api/chat/stop needs
+  const streamRef = useRef<AbortController | null>(null);
+  const [streamQuestionId, setStreamQuestionId] = useState<number | null>(null);
+  const [reconnecting, setReconnecting] = useState(false);
+
+  // WebSocket /api/chat/ws (see ChatSocketEvent in shared/types.ts): live updates from the user's
+  // other tabs, and an alternative transport for streamed turns
+  const socketRef = useRef<WebSocket | null>(null);
+  const [socketOpen, setSocketOpen] = useState(false);
+  const [viaSocket, setViaSocket] = useState(false);
+  // This tab's turn in flight over the socket
+  const socketTurnRef = useRef<{
+    turnId: string;
+    handle: (event: ChatStreamEvent) => void;
+    fail: (error: string) => void;
+    abandon: () => void;
+  } | null>(null);
+  // Reassigned every render, so socket events see the current thread
+  const onSocketEventRef = useRef<(event: ChatSocketEvent) => void>(() => {});
+  const lastTypingSentRef = useRef(0);
+  const [otherTabTyping, setOtherTabTyping] = useState(false);
+  // User message being edited in place
+  const [editing, setEditing] = useState<{ id: number; text: string } | null>(null);
+
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [conversationId, setConversationId] = useState("default");
+  // Uploaded documents used for retrieval, loaded when the sidebar panel is opened
+  const [documents, setDocuments] = useState<DocumentInfo[]>([]);
+  const [showDocuments, setShowDocuments] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  // Long-term memories, loaded when the sidebar panel is opened
+  const [memories, setMemories] = useState<Memory[]>([]);
+  const [showMemories, setShowMemories] = useState(false);
+
+  const [showSettings, setShowSettings] = useState(false);
+
+  const [usage, setUsage] = useState<UsageReport | null>(null);
+  const [showUsage, setShowUsage] = useState(false);
+
+  // Model picker, populated from GET /api/models ("" = server default)
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [model, setModel] = useState("");
+
+  // A completed task whose output is sent along with the next message (`taskId`)
+  const [attachedTaskId, setAttachedTaskId] = useState<string | null>(null);
+
+  // History is loaded a page at a time, newest first
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+
+  // Full-text search over every thread (GET /api/history/search)
+  const [showSearch, setShowSearch] = useState(false);
+  const [search, setSearch] = useState({ q: "", role: "", from: "", to: "" });
+  const [searchHits, setSearchHits] = useState<MessageHit[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  // Message a search hit points at: loaded with its thread, then scrolled to and briefly highlighted
+  const jumpToRef = useRef<number | null>(null);
+  const [highlightId, setHighlightId] = useState<number | null>(null);
 
   const bottomRef = useRef<HTMLDivElement | null>(null);
+  // Set while older messages are prepended, so the view doesn't jump to the bottom
+  const keepScrollRef = useRef(false);
   useEffect(() => {
+    if (keepScrollRef.current) {
+      keepScrollRef.current = false;
+      return;
+    }
     bottomRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages.length]);
 
+  useEffect(() => {
+    if (highlightId === null) return;
+    keepScrollRef.current = false;
+    document.getElementById(`msg-${highlightId}`)?.scrollIntoView({ block: "center" });
+    const timer = setTimeout(() => setHighlightId(null), 3000);
+    return () => clearTimeout(timer);
+  }, [highlightId]);
+
+  // ---------- Auth ----------
+  // The session lives in an HttpOnly cookie; ask the Worker who we are on load
+  useEffect(() => {
+    fetch(`${baseUrl}/api/auth/me`)
+      .then(async (res) => (res.ok ? ((await res.json()) as { user: string }).user : null))
+      .catch(() => null)
+      .then((u) => {
+        setUser(u);
+        setAuthChecked(true);
+      });
+  }, [baseUrl]);
+
+  async function submitAuth(mode: "login" | "signup") {
+    if (authLoading) return;
+
+    setError(null);
+    setAuthLoading(true);
+    try {
+      const res = await fetch(`${baseUrl}/api/auth/${mode}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(authForm),
+      });
+      if (!res.ok) throw new Error(await failureMessage(res, `${mode} failed`));
+      const data = (await res.json()) as { user: string };
+      setAuthForm({ username: "", password: "" });
+      setUser(data.user);
+    } catch (e) {
+      setError((e as Error)?.message ?? "Auth error.");
+    } finally {
+      setAuthLoading(false);
+    }
+  }
+
+  async function logout() {
+    setError(null);
+    await fetch(`${baseUrl}/api/auth/logout`, { method: "POST" }).catch(() => {});
+    setUser(null);
+    setTasks([]);
+    setSelectedTaskId(null);
+  }
+
+  const loadConversations = useCallback(async () => {
+    const res = await fetch(`${baseUrl}/api/conversations`);
+    if (!res.ok) throw new Error(await failureMessage(res, "Conversations failed"));
+    const data = (await res.json()) as { conversations: Conversation[] };
+    setConversations(data.conversations);
+  }, [baseUrl]);
+
+  // Loads the newest page, or when jumping to a search hit, every page back to that message
+  const loadHistory = useCallback(
+    async (id: string) => {
+      const target = jumpToRef.current;
+      jumpToRef.current = null;
+
+      let history: Msg[] = [];
+      let hasMore = false;
+      do {
+        const before = history[0]?.id;
+        const res = await fetch(
+          `${baseUrl}/api/history?conversationId=${encodeURIComponent(id)}` +
+            (before !== undefined ? `&before=${before}` : "")
+        );
+        if (!res.ok) throw new Error(await failureMessage(res, "History failed"));
+        const data = (await res.json()) as { history: Msg[]; hasMore: boolean };
+        history = [...data.history, ...history];
+        hasMore = data.hasMore;
+      } while (target !== null && hasMore && (history[0]?.id ?? 0) > target);
+
+      if (target !== null) {
+        keepScrollRef.current = true;
+        setHighlightId(target);
+      }
+      setMessages(history);
+      setHasMoreHistory(hasMore);
+    },
+    [baseUrl]
+  );
+
+  async function loadOlderMessages() {
+    const before = messages.find((m) => m.id !== undefined)?.id;
+    if (before === undefined || loadingOlder) return;
+
+    setLoadingOlder(true);
+    try {
+      const res = await fetch(
+        `${baseUrl}/api/history?conversationId=${encodeURIComponent(conversationId)}&before=${before}`
+      );
+      if (!res.ok) throw new Error(await failureMessage(res, "History failed"));
+      const data = (await res.json()) as { history: Msg[]; hasMore: boolean };
+      keepScrollRef.current = true;
+      setMessages((prev) => [...data.history, ...prev]);
+      setHasMoreHistory(data.hasMore);
+    } catch (e) {
+      setError((e as Error)?.message ?? "History error.");
+    } finally {
+      setLoadingOlder(false);
+    }
+  }
+
+  useEffect(() => {
+    if (!user) return;
+    fetch(`${baseUrl}/api/models`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error(await failureMessage(res, "Models failed"));
+        const data = (await res.json()) as { default: string; models: ModelInfo[] };
+        setModels(data.models);
+        setModel((current) => current || data.default);
+      })
+      .catch((e) => setError(e?.message ?? "Models error."));
+  }, [user, baseUrl]);
+
+  // Reload the thread list whenever the signed-in user changes
+  useEffect(() => {
+    setConversationId("default");
+    setConversations([]);
+    setMessages([]);
+    setHasMoreHistory(false);
+    if (!user) return;
+    loadConversations().catch((e) => setError(e?.message ?? "Conversations error."));
+  }, [user, loadConversations]);
+
+  // Switching threads swaps the visible messages (and drops a reply still streaming into the old one)
+  useEffect(() => {
+    streamRef.current?.abort();
+    socketTurnRef.current?.abandon();
+    if (!user) return;
+    loadHistory(conversationId).catch((e) => setError(e?.message ?? "History error."));
+  }, [user, conversationId, loadHistory]);
+
+  async function newConversation() {
+    setError(null);
+    try {
+      const res = await fetch(`${baseUrl}/api/conversations`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      if (!res.ok) throw new Error(await failureMessage(res, "Create failed"));
+      const data = (await res.json()) as { conversation: Conversation };
+      setConversations((prev) => [data.conversation, ...prev]);
+      setConversationId(data.conversation.id);
+    } catch (e) {
+      setError((e as Error)?.message ?? "Create error.");
+    }
+  }
+
+  async function renameConversation(c: Conversation) {
+    const title = window.prompt("Rename conversation", c.title)?.trim();
+    if (!title || title === c.title) return;
+
+    setError(null);
+    try {
+      const res = await fetch(`${baseUrl}/api/conversations/rename`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ conversationId: c.id, title }),
+      });
+      if (!res.ok) throw new Error(await failureMessage(res, "Rename failed"));
+      await loadConversations();
+    } catch (e) {
+      setError((e as Error)?.message ?? "Rename error.");
+    }
+  }
+
+  async function deleteConversation(c: Conversation) {
+    if (!window.confirm(`Delete "${c.title}"?`)) return;
+
+    setError(null);
+    try {
+      const res = await fetch(`${baseUrl}/api/conversations/delete`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ conversationId: c.id }),
+      });
+      if (!res.ok) throw new Error(await failureMessage(res, "Delete failed"));
+      setConversations((prev) => prev.filter((x) => x.id !== c.id));
+      if (c.id === conversationId) setConversationId("default");
+    } catch (e) {
+      setError((e as Error)?.message ?? "Delete error.");
+    }
+  }
+
+  // JSON exports restore threads, summaries and tasks; JSONL adds one thread per line
+  async function importHistory(file: File) {
+    setError(null);
+    setImporting(true);
+    try {
+      const format = file.name.toLowerCase().endsWith(".jsonl") ? "jsonl" : "json";
+      const res = await fetch(`${baseUrl}/api/history/import?format=${format}`, {
+        method: "POST",
+        headers: { "Content-Type": format === "json" ? "application/json" : "application/jsonl" },
+        body: await file.text(),
+      });
+      if (!res.ok) throw new Error(await failureMessage(res, "Import failed"));
+      await Promise.all([loadConversations(), loadTasks()]);
+    } catch (e) {
+      setError((e as Error)?.message ?? "Import error.");
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  async function searchHistory() {
+    const q = search.q.trim();
+    if (!q) return;
+
+    setError(null);
+    setSearching(true);
+    try {
+      const qs = new URLSearchParams({ q });
+      if (search.role) qs.set("role", search.role);
+      if (search.from) qs.set("from", search.from);
+      if (search.to) qs.set("to", search.to);
+      const res = await fetch(`${baseUrl}/api/history/search?${qs}`);
+      if (!res.ok) throw new Error(await failureMessage(res, "Search failed"));
+      const data = (await res.json()) as { hits: MessageHit[] };
+      setSearchHits(data.hits);
+    } catch (e) {
+      setError((e as Error)?.message ?? "Search error.");
+    } finally {
+      setSearching(false);
+    }
+  }
+
+  async function jumpToHit(hit: MessageHit) {
+    if (messages.some((m) => m.id === hit.id)) {
+      setHighlightId(hit.id);
+      return;
+    }
+
+    jumpToRef.current = hit.id;
+    // The hit may be on another branch (an earlier edit or regeneration): make it the active one
+    await fetch(`${baseUrl}/api/history/branch`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ conversationId: hit.conversationId, messageId: hit.id }),
+    }).catch(() => {});
+    if (hit.conversationId !== conversationId) {
+      // The history effect loads the thread (through the hit)
+      setConversationId(hit.conversationId);
+      return;
+    }
+    try {
+      await loadHistory(hit.conversationId);
+    } catch (e) {
+      setError((e as Error)?.message ?? "History error.");
+    }
+  }
+
+  async function loadDocuments() {
+    const res = await fetch(`${baseUrl}/api/docs`);
+    if (!res.ok) throw new Error(await failureMessage(res, "Documents failed"));
+    const data = (await res.json()) as { documents: DocumentInfo[] };
+    setDocuments(data.documents);
+  }
+
+  function toggleDocuments() {
+    const next = !showDocuments;
+    setShowDocuments(next);
+    if (next) loadDocuments().catch((e) => setError(e?.message ?? "Documents error."));
+  }
+
+  // Text and Markdown files are read as-is; PDFs need their text extracted beforehand
+  async function uploadDocument(file: File) {
+    setError(null);
+    setUploading(true);
+    try {
+      const res = await fetch(`${baseUrl}/api/docs`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: file.name, text: await file.text() }),
+      });
+      if (!res.ok) throw new Error(await failureMessage(res, "Upload failed"));
+      await loadDocuments();
+    } catch (e) {
+      setError((e as Error)?.message ?? "Upload error.");
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function deleteDocument(d: DocumentInfo) {
+    if (!window.confirm(`Delete "${d.name}"?`)) return;
+
+    setError(null);
+    try {
+      const res = await fetch(`${baseUrl}/api/docs/delete`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: d.id }),
+      });
+      if (!res.ok) throw new Error(await failureMessage(res, "Delete failed"));
+      setDocuments((prev) => prev.filter((x) => x.id !== d.id));
+    } catch (e) {
+      setError((e as Error)?.message ?? "Delete error.");
+    }
+  }
+
+  async function loadMemories() {
+    const res = await fetch(`${baseUrl}/api/memories`);
+    if (!res.ok) throw new Error(await failureMessage(res, "Memories failed"));
+    const data = (await res.json()) as { memories: Memory[] };
+    setMemories(data.memories);
+  }
+
+  function toggleMemories() {
+    const next = !showMemories;
+    setShowMemories(next);
+    if (next) loadMemories().catch((e) => setError(e?.message ?? "Memories error."));
+  }
+
+  async function loadUsage() {
+    const res = await fetch(`${baseUrl}/api/usage`);
+    if (!res.ok) throw new Error(await failureMessage(res, "Usage failed"));
+    setUsage((await res.json()) as UsageReport);
+  }
+
+  function toggleUsage() {
+    const next = !showUsage;
+    setShowUsage(next);
+    if (next) loadUsage().catch((e) => setError(e?.message ?? "Usage error."));
+  }
+
+  async function deleteMemory(m: Memory) {
+    setError(null);
+    try {
+      const res = await fetch(`${baseUrl}/api/memories/delete`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: m.id }),
+      });
+      if (!res.ok) throw new Error(await failureMessage(res, "Forget failed"));
+      setMemories((prev) => prev.filter((x) => x.id !== m.id));
+    } catch (e) {
+      setError((e as Error)?.message ?? "Forget error.");
+    }
+  }
+
   async function sendOnce(text: string) {
-    const res = await fetch(`${baseUrl}/api/chat?user=${encodeURIComponent(userId)}`, {
+    const res = await fetch(`${baseUrl}/api/chat`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ message: text }),
+      body: JSON.stringify({
+        message: text,
+        conversationId,
+        taskId: attachedTaskId ?? undefined,
+        model: model || undefined,
+      }),
     });
-    if (!res.ok) throw new Error(`Request failed (${res.status})`);
-    const data = (await res.json()) as { reply: string };
-    return data.reply;
+    if (!res.ok) throw new Error(await failureMessage(res, "Request failed"));
+    return (await res.json()) as { reply: string; citations?: Citation[]; questionId: number; replyId: number };
   }
 
   async function send() {
@@ -95,9 +888,18 @@ export default function App() {
     setMessages((m) => [...m, { role: "user", content: text }]);
 
     try {
-      const reply = await sendOnce(text);
-      setMessages((m) => [...m, { role: "assistant", content: reply }]);
+      const { reply, citations, questionId, replyId } = await sendOnce(text);
+      setMessages((m) => [
+        ...m.slice(0, -1),
+        { ...m[m.length - 1], id: questionId },
+        { id: replyId, role: "assistant", content: reply, citations },
+      ]);
+      setAttachedTaskId(null);
+      loadConversations().catch(() => {});
     } catch (e: any) {
+      // The server rolled the message back; put it back in the input for a retry
+      setMessages((m) => (m[m.length - 1]?.content === text ? m.slice(0, -1) : m));
+      setInput((current) => current || text);
       setError(e?.message ?? "Chat error.");
     } finally {
       setChatLoading(false);
@@ -105,6 +907,150 @@ export default function App() {
     }
   }
 
+  /**
+   * Applies a turn's ChatStreamEvents to the last message, an assistant message whose text so far
+   * is `base`, while `isLive()`; `state` holds what the caller needs once the turn is over.
+   */
+  function replyUpdater(base: string, isLive: () => boolean) {
+    const state = {
+      text: "",
+      error: null as string | null,
+      finished: false,
+      questionId: null as number | null,
+    };
+
+    // Patches the reply (the last message) and, when given, the question before it
+    const updateLast = (reply: Partial<Msg>, question?: Partial<Msg>) =>
+      setMessages((prev) => {
+        if (!isLive()) return prev;
+        const next = [...prev];
+        const last = next.length - 1;
+        if (last < 0 || next[last]?.role !== "assistant") return prev;
+        next[last] = { ...next[last], ...reply };
+        if (question && last >= 1) next[last - 1] = { ...next[last - 1], ...question };
+        return next;
+      });
+
+    const handle = (event: ChatStreamEvent) => {
+      switch (event.type) {
+        case "start":
+          state.questionId = event.questionId;
+          setStreamQuestionId(event.questionId);
+          break;
+        case "delta":
+          state.text += event.text;
+          updateLast({ content: base + state.text });
+          break;
+        case "citations":
+          updateLast({ citations: event.citations });
+          break;
+        case "error":
+          // The model failed mid-reply; the server keeps whatever text arrived
+          state.error = event.error;
+          break;
+        case "done":
+          state.finished = true;
+          if (event.replyId !== null && event.questionId !== null) {
+            updateLast({ id: event.replyId, truncated: event.truncated }, { id: event.questionId });
+          }
+          break;
+      }
+    };
+    return { state, handle };
+  }
+
+  /**
+   * Streams a reply into the last message, which must be an assistant message whose text so far
+   * is `base`. If the connection drops, it resumes from the last event seen (the server keeps
+   * going). Returns the streamed text and the error, if any. Resolves with null when the stream
+   * was aborted (the thread changed): the messages shown are no longer this stream's.
+   */
+  async function streamReply(path: string, body: object, base: string) {
+    const controller = new AbortController();
+    streamRef.current = controller;
+    try {
+      const res = await fetch(`${baseUrl}${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+      if (!res.ok || !res.body) throw new Error(await failureMessage(res, "Streaming failed"));
+
+      const reply = replyUpdater(base, () => !controller.signal.aborted);
+      let lastEventId = 0;
+      const handle = (event: ChatStreamEvent, id: number | null) => {
+        if (id !== null) lastEventId = id;
+        reply.handle(event);
+      };
+
+      let events: ReadableStream<Uint8Array> | null = res.body;
+      for (let attempt = 0; ; attempt++) {
+        if (events) {
+          try {
+            await readEvents(events, handle);
+          } catch (e) {
+            if (controller.signal.aborted) throw e;
+            // the connection dropped
+          }
+        }
+        // Before the start event there is no stream to go back to
+        const { finished, questionId } = reply.state;
+        if (finished || questionId === null || attempt === MAX_RESUME_ATTEMPTS) break;
+
+        setReconnecting(true);
+        await new Promise((resolve) => setTimeout(resolve, RESUME_DELAY_MS * (attempt + 1)));
+        const resumed = await fetch(`${baseUrl}/api/chat/resume?questionId=${questionId}`, {
+          headers: { "Last-Event-ID": String(lastEventId) },
+          signal: controller.signal,
+        }).catch((e) => {
+          if (controller.signal.aborted) throw e;
+          return null;
+        });
+        setReconnecting(false);
+        // 404: the stream has expired
+        if (resumed?.status === 404) break;
+        events = resumed?.ok ? resumed.body : null;
+      }
+      const { text, finished, error } = reply.state;
+      return { text, error: finished ? error : (error ?? "Connection lost before the reply finished") };
+    } catch (e) {
+      if (controller.signal.aborted) return null;
+      throw e;
+    } finally {
+      if (streamRef.current === controller) streamRef.current = null;
+      setStreamQuestionId(null);
+      setReconnecting(false);
+    }
+  }
+
+  /**
+   * Like streamReply for a new message, over the WebSocket: the turn's events come back tagged
+   * with its turnId. Resolves with null when the turn is abandoned (the thread changed).
+   */
+  function socketReply(socket: WebSocket, body: { message: string; conversationId: string; taskId?: string; model?: string }) {
+    return new Promise<{ text: string; error: string | null } | null>((resolve) => {
+      const turnId = crypto.randomUUID();
+      const reply = replyUpdater("", () => socketTurnRef.current?.turnId === turnId);
+      const end = (result: { text: string; error: string | null } | null) => {
+        if (socketTurnRef.current?.turnId === turnId) socketTurnRef.current = null;
+        setStreamQuestionId(null);
+        resolve(result);
+      };
+
+      socketTurnRef.current = {
+        turnId,
+        handle: (event) => {
+          reply.handle(event);
+          if (event.type === "done") end({ text: reply.state.text, error: reply.state.error });
+        },
+        fail: (error) => end({ text: reply.state.text, error }),
+        abandon: () => end(null),
+      };
+      socket.send(JSON.stringify({ type: "send", turnId, ...body } satisfies ChatSocketRequest));
+    });
+  }
+
   async function sendStream() {
     const text = input.trim();
     if (!text || chatLoading) return;
@@ -117,74 +1063,121 @@ export default function App() {
     setMessages((m) => [...m, { role: "user", content: text }, { role: "assistant", content: "" }]);
 
     try {
-      const res = await fetch(`${baseUrl}/api/chat/stream?user=${encodeURIComponent(userId)}`, {
+      const body = { message: text, conversationId, taskId: attachedTaskId ?? undefined, model: model || undefined };
+      const socket = socketRef.current;
+      const result =
+        viaSocket && socket?.readyState === WebSocket.OPEN
+          ? await socketReply(socket, body)
+          : await streamReply("/api/chat/stream", body, "");
+      if (!result) return;
+      if (result.error && !result.text) throw new Error(result.error);
+      if (result.error) setError(result.error);
+      setAttachedTaskId(null);
+      loadConversations().catch(() => {});
+    } catch (e: any) {
+      // Nothing was stored server-side: drop the optimistic user message and empty reply
+      setMessages((m) =>
+        m.length >= 2 && m[m.length - 1].role === "assistant" && !m[m.length - 1].content ? m.slice(0, -2) : m
+      );
+      setInput((current) => current || text);
+      setError(e?.message ?? "Streaming error.");
+    } finally {
+      setChatLoading(false);
+      setChatMode(null);
+    }
+  }
+
+  // Stop: the server ends the reply and keeps what was written so far (marked truncated)
+  async function stopStream() {
+    if (streamQuestionId === null) return;
+    if (socketTurnRef.current && socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(JSON.stringify({ type: "cancel", questionId: streamQuestionId } satisfies ChatSocketRequest));
+      return;
+    }
+    try {
+      const res = await fetch(`${baseUrl}/api/chat/stop`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: text }),
+        body: JSON.stringify({ questionId: streamQuestionId }),
       });
-      if (!res.ok || !res.body) throw new Error(`Streaming failed (${res.status})`);
-
-      const reader = res.body.getReader();
-      const decoder = new TextDecoder();
-
-      let buffer = "";
-      let full = "";
-
-      while (true) {
-        const { value, done } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-
-        let idx;
-        while ((idx = buffer.indexOf("\n\n")) !== -1) {
-          const frame = buffer.slice(0, idx);
-          buffer = buffer.slice(idx + 2);
-
-          for (const line of frame.split("\n")) {
-            const trimmed = line.trim();
-            if (!trimmed.startsWith("data:")) continue;
-
-            const payload = trimmed.slice(5).trim();
-            if (!payload || payload === "[DONE]") continue;
-
-            try {
-              const obj = JSON.parse(payload);
-              if (typeof obj.response === "string") {
-                full += obj.response;
-
-                setMessages((prev) => {
-                  const next = [...prev];
-                  const last = next.length - 1;
-                  if (last >= 0 && next[last]?.role === "assistant") {
-                    next[last] = { role: "assistant", content: full };
-                  }
-                  return next;
-                });
-              }
-            } catch {
-              // ignore
-            }
-          }
-        }
-      }
-    } catch (e: any) {
-      setError(e?.message ?? "Streaming error.");
+      if (!res.ok) throw new Error(await failureMessage(res, "Stop failed"));
+    } catch (e) {
+      setError((e as Error)?.message ?? "Stop error.");
+    }
+  }
+
+  // Continue: streams the rest of a truncated reply onto the end of it
+  async function continueReply(reply: Msg) {
+    if (chatLoading || reply.id === undefined) return;
+    setError(null);
+    setChatLoading(true);
+    setChatMode("stream");
+    try {
+      const result = await streamReply(
+        "/api/chat/continue",
+        { conversationId, messageId: reply.id, model: model || undefined },
+        reply.content
+      );
+      if (result?.error) setError(result.error);
+    } catch (e) {
+      setError((e as Error)?.message ?? "Streaming error.");
     } finally {
       setChatLoading(false);
       setChatMode(null);
     }
   }
 
-  async function clearMemory() {
+  // Regenerate / edit: the server answers on a new branch, then the thread reloads to show it
+  async function branchReply(path: "regenerate" | "edit", body: { messageId?: number; content?: string }) {
+    if (chatLoading) return;
     setError(null);
     setChatLoading(true);
+    setChatMode("send");
+    try {
+      const res = await fetch(`${baseUrl}/api/chat/${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...body, conversationId, model: model || undefined }),
+      });
+      if (!res.ok) throw new Error(await failureMessage(res, "Request failed"));
+      setEditing(null);
+      await loadHistory(conversationId);
+      loadConversations().catch(() => {});
+    } catch (e) {
+      setError((e as Error)?.message ?? "Chat error.");
+    } finally {
+      setChatLoading(false);
+      setChatMode(null);
+    }
+  }
+
+  // ‹ / › on a message with alternatives: show the branch through the chosen sibling
+  async function switchBranch(messageId: number) {
+    setError(null);
     try {
-      const res = await fetch(`${baseUrl}/api/clear?user=${encodeURIComponent(userId)}`, {
+      const res = await fetch(`${baseUrl}/api/history/branch`, {
         method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ conversationId, messageId }),
       });
-      if (!res.ok) throw new Error(`Clear failed (${res.status})`);
+      if (!res.ok) throw new Error(await failureMessage(res, "Switch failed"));
+      await loadHistory(conversationId);
+    } catch (e) {
+      setError((e as Error)?.message ?? "History error.");
+    }
+  }
+
+  async function clearMemory() {
+    setError(null);
+    setChatLoading(true);
+    try {
+      const res = await fetch(
+        `${baseUrl}/api/clear?conversationId=${encodeURIComponent(conversationId)}`,
+        { method: "POST" }
+      );
+      if (!res.ok) throw new Error(await failureMessage(res, "Clear failed"));
       setMessages([]);
+      setHasMoreHistory(false);
     } catch (e: any) {
       setError(e?.message ?? "Clear error.");
     } finally {
@@ -207,6 +1200,7 @@ export default function App() {
   const [taskLoading, setTaskLoading] = useState(false);
   const [autoPoll, setAutoPoll] = useState(true);
   const [lastPolledAt, setLastPolledAt] = useState<number | null>(null);
+  const [liveMode, setLiveMode] = useState<"live" | "polling" | "idle">("idle");
 
   const selectedTask = tasks.find((t) => t.id === selectedTaskId) ?? null;
 
@@ -216,29 +1210,157 @@ export default function App() {
 
     setError(null);
     setTaskLoading(true);
-
+
+    try {
+      const res = await fetch(`${baseUrl}/api/task`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ goal, model: model || undefined }),
+      });
+      if (!res.ok) throw new Error(await failureMessage(res, "Task start failed"));
+
+      const data = (await res.json()) as { id: string; status: TaskStatus };
+
+      const item: TaskItem = {
+        id: data.id,
+        goal,
+        status: data.status,
+        createdAt: Date.now(),
+      };
+
+      setTasks((prev) => [item, ...prev]);
+      setSelectedTaskId(data.id);
+      setTaskGoal("");
+    } catch (e: any) {
+      setError(e?.message ?? "Task error.");
+    } finally {
+      setTaskLoading(false);
+    }
+  }
+
+  // The task list comes from the server-side registry, so it survives a page refresh
+  const loadTasks = useCallback(async () => {
+    const res = await fetch(`${baseUrl}/api/tasks`);
+    if (!res.ok) throw new Error(await failureMessage(res, "Tasks failed"));
+
+    const data = (await res.json()) as { tasks: TaskRecord[] };
+    setTasks(
+      data.tasks.map((t) => ({
+        id: t.id,
+        goal: t.goal,
+        createdAt: t.createdAt,
+        status: { status: t.status, error: t.error ?? null, output: t.output ?? null },
+      }))
+    );
+  }, [baseUrl]);
+
+  useEffect(() => {
+    if (!user) return;
+    loadTasks().catch((e) => setError(e?.message ?? "Tasks error."));
+  }, [user, loadTasks]);
+
+  onSocketEventRef.current = (event: ChatSocketEvent) => {
+    switch (event.type) {
+      case "stream":
+        if (event.turnId === socketTurnRef.current?.turnId) socketTurnRef.current.handle(event.event);
+        break;
+      case "message":
+        // Stored from another tab (or route): reload the open thread, unless this tab is mid-turn
+        if (event.conversationId === conversationId && !chatLoading) {
+          loadHistory(conversationId).catch(() => {});
+        }
+        if (event.message.role === "user") loadConversations().catch(() => {});
+        break;
+      case "typing":
+        if (event.conversationId === conversationId) setOtherTabTyping(true);
+        break;
+      case "task": {
+        const { task } = event;
+        const status = { status: task.status, error: task.error ?? null, output: task.output ?? null };
+        setTasks((prev) => prev.map((t) => (t.id === task.id ? { ...t, status } : t)));
+        break;
+      }
+      case "error":
+        if (event.turnId && event.turnId === socketTurnRef.current?.turnId) socketTurnRef.current.fail(event.error);
+        else setError(event.error);
+        break;
+    }
+  };
+
+  // One socket per signed-in tab, reopened after a drop; pings keep idle connections open
+  useEffect(() => {
+    if (!user) return;
+    let closed = false;
+    let socket: WebSocket;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      const url = new URL(`${baseUrl}/api/chat/ws`, window.location.href);
+      url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(url);
+      socketRef.current = socket;
+      socket.onopen = () => setSocketOpen(true);
+      socket.onmessage = (e) => {
+        if (e.data === "pong") return;
+        try {
+          onSocketEventRef.current(JSON.parse(e.data) as ChatSocketEvent);
+        } catch {
+          // ignore malformed frames
+        }
+      };
+      socket.onclose = () => {
+        setSocketOpen(false);
+        // The server still finishes and stores the reply; it shows up once the thread reloads
+        socketTurnRef.current?.fail("Connection lost before the reply finished");
+        if (!closed) retry = setTimeout(connect, SOCKET_RETRY_MS);
+      };
+    };
+    connect();
+    const ping = setInterval(() => {
+      if (socket.readyState === WebSocket.OPEN) socket.send("ping");
+    }, SOCKET_PING_MS);
+
+    return () => {
+      closed = true;
+      clearTimeout(retry);
+      clearInterval(ping);
+      socket.close();
+      socketRef.current = null;
+    };
+  }, [user, baseUrl]);
+
+  // "Typing in another tab" fades a few seconds after the last notice
+  useEffect(() => {
+    if (!otherTabTyping) return;
+    const timer = setTimeout(() => setOtherTabTyping(false), TYPING_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [otherTabTyping]);
+
+  // Tells the user's other tabs, at most once per TYPING_NOTICE_MS
+  function onInputChange(value: string) {
+    setInput(value);
+    const socket = socketRef.current;
+    if (!value || socket?.readyState !== WebSocket.OPEN) return;
+    if (Date.now() - lastTypingSentRef.current < TYPING_NOTICE_MS) return;
+    lastTypingSentRef.current = Date.now();
+    socket.send(JSON.stringify({ type: "typing", conversationId } satisfies ChatSocketRequest));
+  }
+
+  async function controlTask(id: string, action: "pause" | "resume" | "terminate" | "restart") {
+    setError(null);
+    setTaskLoading(true);
     try {
-      const res = await fetch(`${baseUrl}/api/task`, {
+      const res = await fetch(`${baseUrl}/api/task/${action}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ goal }),
+        body: JSON.stringify({ instanceId: id }),
       });
-      if (!res.ok) throw new Error(`Task start failed (${res.status})`);
-
-      const data = (await res.json()) as { id: string; status: TaskStatus };
+      if (!res.ok) throw new Error(await failureMessage(res, `Task ${action} failed`));
 
-      const item: TaskItem = {
-        id: data.id,
-        goal,
-        status: data.status,
-        createdAt: Date.now(),
-      };
-
-      setTasks((prev) => [item, ...prev]);
-      setSelectedTaskId(data.id);
-      setTaskGoal("");
-    } catch (e: any) {
-      setError(e?.message ?? "Task error.");
+      const data = (await res.json()) as { status: TaskStatus };
+      setTasks((prev) => prev.map((t) => (t.id === id ? { ...t, status: data.status } : t)));
+    } catch (e) {
+      setError((e as Error)?.message ?? "Task error.");
     } finally {
       setTaskLoading(false);
     }
@@ -248,7 +1370,7 @@ export default function App() {
     const res = await fetch(`${baseUrl}/api/task?instanceId=${encodeURIComponent(id)}`, {
       method: "GET",
     });
-    if (!res.ok) throw new Error(`Task poll failed (${res.status})`);
+    if (!res.ok) throw new Error(await failureMessage(res, "Task poll failed"));
 
     const data = (await res.json()) as { status: TaskStatus };
 
@@ -258,23 +1380,63 @@ export default function App() {
     );
   }
 
-  // Auto-poll the selected task if it’s not finished
+  // Live progress for the selected task via SSE; fall back to 2s polling if the stream fails
+  const selectedFinished = isFinished(selectedTask?.status?.status);
   useEffect(() => {
-    if (!selectedTask) return;
-    const s = selectedTask.status?.status;
-    if (s === "complete" || s === "failed") return;
-
-    const timer = setInterval(() => {
-      pollTask(selectedTask.id).catch(() => {});
-    }, 2000);
+    if (!selectedTask || selectedFinished) {
+      setLiveMode("idle");
+      return;
+    }
+    const id = selectedTask.id;
+
+    let timer: ReturnType<typeof setInterval> | null = null;
+    const startPolling = () => {
+      if (!autoPoll || timer) return;
+      setLiveMode("polling");
+      timer = setInterval(() => {
+        pollTask(id).catch(() => {});
+      }, 2000);
+    };
+    const stopPolling = () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    };
+
+    if (typeof EventSource === "undefined") {
+      startPolling();
+      return stopPolling;
+    }
 
-    return () => clearInterval(timer);
-  }, [selectedTask?.id, selectedTask?.status?.status]);
+    const es = new EventSource(`${baseUrl}/api/task/events?instanceId=${encodeURIComponent(id)}`);
+    const onEvent = (e: MessageEvent) => {
+      const ev = JSON.parse(e.data) as ProgressEvent;
+      setLastPolledAt(Date.now());
+      setTasks((prev) => prev.map((t) => (t.id === id ? { ...t, status: applyProgress(t.status, ev) } : t)));
+      if (ev.type === "complete" || ev.type === "failed") es.close();
+    };
+    for (const type of ["status", "plan", "step", "complete", "failed"]) {
+      es.addEventListener(type, onEvent);
+    }
+    es.onopen = () => {
+      stopPolling();
+      setLiveMode("live");
+    };
+    es.onerror = () => startPolling();
+
+    return () => {
+      es.close();
+      stopPolling();
+    };
+  }, [selectedTask?.id, selectedFinished, autoPoll]);
 
   // ---------- Layout ----------
   const chatStatus =
     chatLoading && chatMode === "stream"
-      ? "Streaming…"
+      ? reconnecting
+        ? "Connection lost, reconnecting…"
+        : "Streaming…"
+      : otherTabTyping
+      ? "Typing in another tab…"
       : chatLoading && chatMode === "send"
       ? "Sending…"
       : "Ready";
@@ -316,37 +1478,99 @@ export default function App() {
             </div>
           </div>
 
-          <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
-            <input
-              value={userId}
-              onChange={(e) => setUserId(e.target.value)}
-              placeholder="user id"
-              style={{
-                width: 240,
-                padding: "10px 12px",
-                borderRadius: 10,
-                border: "1px solid rgba(255,255,255,0.12)",
-                background: "rgba(255,255,255,0.06)",
-                color: "#e6e6e6",
-                outline: "none",
-              }}
-            />
-            <button
-              onClick={clearMemory}
-              disabled={chatLoading}
-              style={{
-                padding: "10px 12px",
-                borderRadius: 10,
-                border: "1px solid rgba(255,255,255,0.12)",
-                background: "rgba(255,255,255,0.06)",
-                color: "#e6e6e6",
-                cursor: chatLoading ? "not-allowed" : "pointer",
+          {user ? (
+            <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <div style={{ fontSize: 13, opacity: 0.8 }}>
+                Signed in as <b>{user}</b>
+              </div>
+              <button
+                onClick={clearMemory}
+                disabled={chatLoading}
+                style={{
+                  padding: "10px 12px",
+                  borderRadius: 10,
+                  border: "1px solid rgba(255,255,255,0.12)",
+                  background: "rgba(255,255,255,0.06)",
+                  color: "#e6e6e6",
+                  cursor: chatLoading ? "not-allowed" : "pointer",
+                }}
+                title="Clears Durable Object history for the current conversation"
+              >
+                Clear Chat
+              </button>
+              <button
+                onClick={logout}
+                style={{
+                  padding: "10px 12px",
+                  borderRadius: 10,
+                  border: "1px solid rgba(255,255,255,0.12)",
+                  background: "rgba(255,255,255,0.06)",
+                  color: "#e6e6e6",
+                  cursor: "pointer",
+                }}
+              >
+                Log out
+              </button>
+            </div>
+          ) : (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                submitAuth("login");
               }}
-              title="Clears Durable Object history for this userId"
+              style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}
             >
-              Clear Memory
-            </button>
-          </div>
+              {(["username", "password"] as const).map((field) => (
+                <input
+                  key={field}
+                  type={field === "password" ? "password" : "text"}
+                  autoComplete={field === "password" ? "current-password" : "username"}
+                  value={authForm[field]}
+                  onChange={(e) => setAuthForm((f) => ({ ...f, [field]: e.target.value }))}
+                  placeholder={field}
+                  style={{
+                    width: 170,
+                    padding: "10px 12px",
+                    borderRadius: 10,
+                    border: "1px solid rgba(255,255,255,0.12)",
+                    background: "rgba(255,255,255,0.06)",
+                    color: "#e6e6e6",
+                    outline: "none",
+                  }}
+                />
+              ))}
+              <button
+                type="submit"
+                disabled={authLoading}
+                style={{
+                  padding: "10px 12px",
+                  borderRadius: 10,
+                  border: "1px solid rgba(255,255,255,0.12)",
+                  background: "rgba(99, 102, 241, 0.25)",
+                  color: "#e6e6e6",
+                  cursor: authLoading ? "not-allowed" : "pointer",
+                  fontWeight: 700,
+                }}
+              >
+                Log in
+              </button>
+              <button
+                type="button"
+                onClick={() => submitAuth("signup")}
+                disabled={authLoading}
+                style={{
+                  padding: "10px 12px",
+                  borderRadius: 10,
+                  border: "1px solid rgba(255,255,255,0.12)",
+                  background: "rgba(255,255,255,0.06)",
+                  color: "#e6e6e6",
+                  cursor: authLoading ? "not-allowed" : "pointer",
+                }}
+              >
+                Sign up
+              </button>
+            </form>
+          )}
         </div>
 
         {error && (
@@ -366,7 +1590,31 @@ export default function App() {
         )}
       </div>
 
-      {/* Full-width 2-pane workspace */}
+      {!user ? (
+        <div style={{ padding: 32, display: "flex", justifyContent: "center" }}>
+          <div
+            style={{
+              maxWidth: 420,
+              border: "1px dashed rgba(255,255,255,0.18)",
+              borderRadius: 16,
+              padding: 18,
+              opacity: 0.85,
+              lineHeight: 1.6,
+            }}
+          >
+            {authChecked ? (
+              <>
+                <div style={{ fontWeight: 650, marginBottom: 6 }}>Sign in to start</div>
+                Log in or create an account above. Your chat memory and tasks are private to your
+                account.
+              </>
+            ) : (
+              "Checking session…"
+            )}
+          </div>
+        </div>
+      ) : (
+      /* Full-width 2-pane workspace */
       <div
         className="layout"
         style={{
@@ -378,7 +1626,7 @@ export default function App() {
           boxSizing: "border-box",
         }}
       >
-        {/* LEFT: Chat panel */}
+        {/* LEFT: Chat panel (conversation sidebar + thread) */}
         <div
           style={{
             border: "1px solid rgba(255,255,255,0.10)",
@@ -386,14 +1634,492 @@ export default function App() {
             background: "rgba(255,255,255,0.03)",
             overflow: "hidden",
             display: "flex",
-            flexDirection: "column",
             minWidth: 0,
           }}
         >
+          {/* Conversation sidebar */}
+          <div
+            className="chat-sidebar"
+            style={{
+              width: 210,
+              flexShrink: 0,
+              borderRight: "1px solid rgba(255,255,255,0.08)",
+              display: "flex",
+              flexDirection: "column",
+              minHeight: 0,
+            }}
+          >
+            <div style={{ padding: 12, borderBottom: "1px solid rgba(255,255,255,0.08)" }}>
+              <button
+                onClick={newConversation}
+                disabled={chatLoading}
+                style={{
+                  width: "100%",
+                  padding: "8px 10px",
+                  borderRadius: 10,
+                  border: "1px solid rgba(255,255,255,0.12)",
+                  background: "rgba(99, 102, 241, 0.25)",
+                  color: "#e6e6e6",
+                  cursor: chatLoading ? "not-allowed" : "pointer",
+                  fontWeight: 700,
+                }}
+              >
+                + New chat
+              </button>
+              <div style={{ display: "flex", alignItems: "center", gap: 6, marginTop: 8, fontSize: 11, opacity: 0.75 }}>
+                <span>Export</span>
+                {(["json", "markdown", "jsonl"] as const).map((f) => (
+                  <a
+                    key={f}
+                    href={`${baseUrl}/api/history/export?format=${f}`}
+                    download
+                    style={{ color: "#e6e6e6" }}
+                  >
+                    {f === "markdown" ? "md" : f}
+                  </a>
+                ))}
+                <label
+                  title="Import a JSON export or a JSONL dataset"
+                  style={{ marginLeft: "auto", cursor: importing ? "not-allowed" : "pointer", textDecoration: "underline" }}
+                >
+                  {importing ? "Importing…" : "Import"}
+                  <input
+                    type="file"
+                    accept=".json,.jsonl,application/json"
+                    disabled={importing}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = "";
+                      if (file) importHistory(file);
+                    }}
+                    style={{ display: "none" }}
+                  />
+                </label>
+              </div>
+            </div>
+
+            <div style={{ overflowY: "auto", flex: 1 }}>
+              {conversations.length === 0 ? (
+                <div style={{ padding: 12, fontSize: 12, opacity: 0.6 }}>No conversations yet</div>
+              ) : (
+                conversations.map((c) => {
+                  const active = c.id === conversationId;
+                  return (
+                    <div
+                      key={c.id}
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: 4,
+                        padding: "8px 8px 8px 12px",
+                        borderBottom: "1px solid rgba(255,255,255,0.05)",
+                        background: active ? "rgba(255,255,255,0.06)" : "transparent",
+                      }}
+                    >
+                      <button
+                        onClick={() => setConversationId(c.id)}
+                        disabled={chatLoading}
+                        title={c.title}
+                        style={{
+                          flex: 1,
+                          minWidth: 0,
+                          textAlign: "left",
+                          border: "none",
+                          background: "transparent",
+                          color: "#e6e6e6",
+                          cursor: chatLoading ? "not-allowed" : "pointer",
+                          padding: 0,
+                        }}
+                      >
+                        <div style={{ fontSize: 13, fontWeight: active ? 700 : 500, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                          {c.title}
+                        </div>
+                        <div style={{ fontSize: 11, opacity: 0.55 }}>
+                          {new Date(c.updatedAt).toLocaleString()}
+                        </div>
+                      </button>
+                      <button
+                        onClick={() => renameConversation(c)}
+                        title="Rename"
+                        style={{ border: "none", background: "transparent", color: "#e6e6e6", opacity: 0.6, cursor: "pointer" }}
+                      >
+                        ✎
+                      </button>
+                      <button
+                        onClick={() => deleteConversation(c)}
+                        title="Delete"
+                        style={{ border: "none", background: "transparent", color: "#e6e6e6", opacity: 0.6, cursor: "pointer" }}
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+
+            {/* Search: full-text search over every thread; a hit opens its thread at that message */}
+            <div
+              style={{
+                borderTop: "1px solid rgba(255,255,255,0.08)",
+                maxHeight: showSearch ? "45%" : undefined,
+                display: "flex",
+                flexDirection: "column",
+                minHeight: 0,
+              }}
+            >
+              <button
+                onClick={() => setShowSearch((v) => !v)}
+                style={{
+                  padding: "10px 12px",
+                  border: "none",
+                  background: "transparent",
+                  color: "#e6e6e6",
+                  textAlign: "left",
+                  cursor: "pointer",
+                  fontSize: 13,
+                  fontWeight: 700,
+                }}
+              >
+                {showSearch ? "▾" : "▸"} Search{showSearch && searchHits ? ` (${searchHits.length})` : ""}
+              </button>
+              {showSearch && (
+                <div style={{ overflowY: "auto", minHeight: 0 }}>
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      searchHistory();
+                    }}
+                    style={{ display: "flex", flexDirection: "column", gap: 6, padding: "0 12px 8px" }}
+                  >
+                    <input
+                      value={search.q}
+                      onChange={(e) => setSearch((f) => ({ ...f, q: e.target.value }))}
+                      placeholder="Search messages…"
+                      style={FIELD}
+                    />
+                    <select
+                      value={search.role}
+                      onChange={(e) => setSearch((f) => ({ ...f, role: e.target.value }))}
+                      style={FIELD}
+                    >
+                      <option value="" style={{ background: "#0b0f17" }}>Anyone</option>
+                      <option value="user" style={{ background: "#0b0f17" }}>You</option>
+                      <option value="assistant" style={{ background: "#0b0f17" }}>Assistant</option>
+                    </select>
+                    <div style={{ display: "flex", gap: 4 }} title="Date range (UTC days, inclusive)">
+                      <input
+                        type="date"
+                        value={search.from}
+                        onChange={(e) => setSearch((f) => ({ ...f, from: e.target.value }))}
+                        style={{ ...FIELD, flex: 1 }}
+                      />
+                      <input
+                        type="date"
+                        value={search.to}
+                        onChange={(e) => setSearch((f) => ({ ...f, to: e.target.value }))}
+                        style={{ ...FIELD, flex: 1 }}
+                      />
+                    </div>
+                    <button
+                      type="submit"
+                      disabled={searching || !search.q.trim()}
+                      style={{
+                        ...FIELD,
+                        fontWeight: 700,
+                        cursor: searching || !search.q.trim() ? "not-allowed" : "pointer",
+                      }}
+                    >
+                      {searching ? "Searching…" : "Search"}
+                    </button>
+                  </form>
+                  {searchHits?.length === 0 && (
+                    <div style={{ padding: "0 12px 12px", fontSize: 12, opacity: 0.6 }}>No matches</div>
+                  )}
+                  {searchHits?.map((h) => (
+                    <button
+                      key={h.id}
+                      onClick={() => jumpToHit(h)}
+                      disabled={chatLoading}
+                      style={{
+                        display: "block",
+                        width: "100%",
+                        padding: "6px 12px",
+                        border: "none",
+                        borderTop: "1px solid rgba(255,255,255,0.05)",
+                        background: "transparent",
+                        color: "#e6e6e6",
+                        textAlign: "left",
+                        fontSize: 12,
+                        cursor: chatLoading ? "not-allowed" : "pointer",
+                      }}
+                    >
+                      <div style={{ fontSize: 11, opacity: 0.55, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                        {h.conversationTitle} · {h.role === "user" ? "You" : "Assistant"} ·{" "}
+                        {new Date(h.createdAt).toLocaleDateString()}
+                      </div>
+                      <div style={{ lineHeight: 1.4 }}>
+                        <Snippet text={h.snippet} />
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Documents: uploaded files the assistant retrieves from and cites */}
+            <div
+              style={{
+                borderTop: "1px solid rgba(255,255,255,0.08)",
+                maxHeight: showDocuments ? "35%" : undefined,
+                display: "flex",
+                flexDirection: "column",
+                minHeight: 0,
+              }}
+            >
+              <button
+                onClick={toggleDocuments}
+                style={{
+                  padding: "10px 12px",
+                  border: "none",
+                  background: "transparent",
+                  color: "#e6e6e6",
+                  textAlign: "left",
+                  cursor: "pointer",
+                  fontSize: 13,
+                  fontWeight: 700,
+                }}
+              >
+                {showDocuments ? "▾" : "▸"} Documents{showDocuments ? ` (${documents.length})` : ""}
+              </button>
+              {showDocuments && (
+                <div style={{ overflowY: "auto", minHeight: 0 }}>
+                  <label
+                    style={{
+                      display: "block",
+                      margin: "0 12px 8px",
+                      padding: "8px 10px",
+                      borderRadius: 10,
+                      border: "1px dashed rgba(255,255,255,0.20)",
+                      fontSize: 12,
+                      textAlign: "center",
+                      opacity: uploading ? 0.6 : 0.85,
+                      cursor: uploading ? "not-allowed" : "pointer",
+                    }}
+                    title="Text or Markdown (extract PDFs to text first)"
+                  >
+                    {uploading ? "Uploading…" : "+ Upload .txt / .md"}
+                    <input
+                      type="file"
+                      accept=".txt,.md,.markdown,text/plain,text/markdown"
+                      disabled={uploading}
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = "";
+                        if (file) uploadDocument(file);
+                      }}
+                      style={{ display: "none" }}
+                    />
+                  </label>
+                  {documents.map((d) => (
+                    <div
+                      key={d.id}
+                      style={{
+                        display: "flex",
+                        gap: 4,
+                        padding: "6px 8px 6px 12px",
+                        borderTop: "1px solid rgba(255,255,255,0.05)",
+                      }}
+                    >
+                      <div style={{ flex: 1, minWidth: 0, fontSize: 12 }} title={d.name}>
+                        <div style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{d.name}</div>
+                        <div style={{ fontSize: 11, opacity: 0.55 }}>
+                          {d.chunks} parts · {new Date(d.createdAt).toLocaleDateString()}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => deleteDocument(d)}
+                        title="Delete"
+                        style={{ border: "none", background: "transparent", color: "#e6e6e6", opacity: 0.6, cursor: "pointer" }}
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Long-term memory: what the assistant may recall across conversations */}
+            <div
+              style={{
+                borderTop: "1px solid rgba(255,255,255,0.08)",
+                maxHeight: showMemories ? "45%" : undefined,
+                display: "flex",
+                flexDirection: "column",
+                minHeight: 0,
+              }}
+            >
+              <button
+                onClick={toggleMemories}
+                style={{
+                  padding: "10px 12px",
+                  border: "none",
+                  background: "transparent",
+                  color: "#e6e6e6",
+                  textAlign: "left",
+                  cursor: "pointer",
+                  fontSize: 13,
+                  fontWeight: 700,
+                }}
+              >
+                {showMemories ? "▾" : "▸"} Memories{showMemories ? ` (${memories.length})` : ""}
+              </button>
+              {showMemories && (
+                <div style={{ overflowY: "auto", minHeight: 0 }}>
+                  {memories.length === 0 ? (
+                    <div style={{ padding: "0 12px 12px", fontSize: 12, opacity: 0.6 }}>Nothing remembered yet</div>
+                  ) : (
+                    memories.map((m) => (
+                      <div
+                        key={m.id}
+                        style={{
+                          display: "flex",
+                          gap: 4,
+                          padding: "6px 8px 6px 12px",
+                          borderTop: "1px solid rgba(255,255,255,0.05)",
+                        }}
+                      >
+                        <div style={{ flex: 1, minWidth: 0, fontSize: 12 }} title={`${m.question}\n\n${m.answer}`}>
+                          <div style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                            {m.question}
+                          </div>
+                          <div style={{ fontSize: 11, opacity: 0.55 }}>
+                            {new Date(m.createdAt).toLocaleDateString()}
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => deleteMemory(m)}
+                          title="Forget"
+                          style={{ border: "none", background: "transparent", color: "#e6e6e6", opacity: 0.6, cursor: "pointer" }}
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Usage: this user's metered requests and tokens (GET /api/usage) */}
+            <div style={{ borderTop: "1px solid rgba(255,255,255,0.08)", display: "flex", flexDirection: "column", minHeight: 0 }}>
+              <button
+                onClick={toggleUsage}
+                style={{
+                  padding: "10px 12px",
+                  border: "none",
+                  background: "transparent",
+                  color: "#e6e6e6",
+                  textAlign: "left",
+                  cursor: "pointer",
+                  fontSize: 13,
+                  fontWeight: 700,
+                }}
+              >
+                {showUsage ? "▾" : "▸"} Usage{showUsage && usage ? ` (${usage.days} days)` : ""}
+              </button>
+              {showUsage && usage && (
+                <div style={{ overflowY: "auto", minHeight: 0, padding: "0 12px 12px", fontSize: 12 }}>
+                  <div>
+                    Today: {usage.quota.usedToday.toLocaleString()} / {usage.quota.dailyTokens.toLocaleString()} tokens
+                  </div>
+                  <div
+                    style={{
+                      height: 4,
+                      margin: "4px 0 8px",
+                      borderRadius: 2,
+                      background: "rgba(255,255,255,0.08)",
+                      overflow: "hidden",
+                    }}
+                  >
+                    <div
+                      style={{
+                        height: "100%",
+                        width: `${Math.min(100, (100 * usage.quota.usedToday) / usage.quota.dailyTokens)}%`,
+                        background: "rgba(99, 102, 241, 0.8)",
+                      }}
+                    />
+                  </div>
+                  <div style={{ opacity: 0.8 }}>
+                    {usage.totals.requests} requests · {usage.totals.tokens.toLocaleString()} tokens ·{" "}
+                    {usage.totals.errors} errors
+                  </div>
+                  {usage.byModel.length > 0 && <div style={{ opacity: 0.6, marginTop: 8 }}>By model</div>}
+                  {usage.byModel.map((m) => (
+                    <div key={m.model} style={{ display: "flex", gap: 6 }} title={m.model}>
+                      <span style={{ flex: 1, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                        {models.find((x) => x.id === m.model)?.label ?? m.model}
+                      </span>
+                      <span>{m.tokens.toLocaleString()}</span>
+                    </div>
+                  ))}
+                  {usage.byRoute.length > 0 && <div style={{ opacity: 0.6, marginTop: 8 }}>By route</div>}
+                  {usage.byRoute.map((r) => (
+                    <div
+                      key={r.route}
+                      style={{ display: "flex", gap: 6 }}
+                      title={`${r.requests} requests, ${r.errors} errors, avg ${r.avgLatencyMs} ms`}
+                    >
+                      <span style={{ flex: 1, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                        {r.route.replace(/^\/api\//, "")} ×{r.requests}
+                      </span>
+                      <span>{r.tokens.toLocaleString()}</span>
+                    </div>
+                  ))}
+                  {usage.byDay.length > 0 && <div style={{ opacity: 0.6, marginTop: 8 }}>By day</div>}
+                  {usage.byDay.slice(0, 7).map((d) => (
+                    <div key={d.day} style={{ display: "flex", gap: 6 }}>
+                      <span style={{ flex: 1 }}>{d.day}</span>
+                      <span>{d.tokens.toLocaleString()}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div style={{ display: "flex", flexDirection: "column", flex: 1, minWidth: 0 }}>
           <div style={{ padding: 14, borderBottom: "1px solid rgba(255,255,255,0.08)" }}>
             <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10 }}>
               <div style={{ fontWeight: 700 }}>Chat</div>
-              <Pill text={chatStatus} />
+              <div style={{ display: "flex", alignItems: "center", gap: 8, minWidth: 0 }}>
+                <select
+                  value={model}
+                  onChange={(e) => setModel(e.target.value)}
+                  disabled={chatLoading || models.length === 0}
+                  title="Model used for chat and new tasks"
+                  style={{
+                    maxWidth: 220,
+                    padding: "6px 8px",
+                    borderRadius: 10,
+                    border: "1px solid rgba(255,255,255,0.12)",
+                    background: "rgba(255,255,255,0.06)",
+                    color: "#e6e6e6",
+                    outline: "none",
+                  }}
+                >
+                  {models.map((m) => (
+                    <option key={m.id} value={m.id} style={{ background: "#0b0f17" }}>
+                      {m.label}
+                    </option>
+                  ))}
+                </select>
+                <button onClick={() => setShowSettings(true)} title="Persona and prompts" style={MSG_ACTION}>
+                  ⚙ Settings
+                </button>
+                <Pill text={chatStatus} />
+              </div>
             </div>
             <div style={{ fontSize: 12, opacity: 0.65, marginTop: 6 }}>
               Send = /api/chat · Stream = /api/chat/stream
@@ -420,16 +2146,41 @@ export default function App() {
               </div>
             ) : (
               <div style={{ display: "flex", flexDirection: "column", gap: 12 }}>
+                {hasMoreHistory && (
+                  <button
+                    onClick={loadOlderMessages}
+                    disabled={loadingOlder}
+                    style={{
+                      alignSelf: "center",
+                      padding: "6px 12px",
+                      borderRadius: 10,
+                      border: "1px solid rgba(255,255,255,0.12)",
+                      background: "rgba(255,255,255,0.06)",
+                      color: "#e6e6e6",
+                      fontSize: 12,
+                      cursor: loadingOlder ? "not-allowed" : "pointer",
+                    }}
+                  >
+                    {loadingOlder ? "Loading…" : "Load earlier messages"}
+                  </button>
+                )}
                 {messages.map((m, i) => {
                   const isUser = m.role === "user";
+                  const highlighted = m.id !== undefined && m.id === highlightId;
+                  const alt = m.id !== undefined && m.alternatives ? m.alternatives.indexOf(m.id) : -1;
+                  const isEditing = editing !== null && editing.id === m.id;
                   return (
-                    <div key={i} style={{ display: "flex", justifyContent: isUser ? "flex-end" : "flex-start" }}>
+                    <div
+                      key={i}
+                      id={m.id !== undefined ? `msg-${m.id}` : undefined}
+                      style={{ display: "flex", justifyContent: isUser ? "flex-end" : "flex-start" }}
+                    >
                       <div
                         style={{
                           maxWidth: "78%",
                           padding: "12px 14px",
                           borderRadius: 16,
-                          border: "1px solid rgba(255,255,255,0.12)",
+                          border: highlighted ? "1px solid rgba(234,179,8,0.8)" : "1px solid rgba(255,255,255,0.12)",
                           background: isUser ? "rgba(99, 102, 241, 0.20)" : "rgba(255,255,255,0.06)",
                           whiteSpace: "pre-wrap",
                           lineHeight: 1.45,
@@ -438,7 +2189,106 @@ export default function App() {
                         <div style={{ fontSize: 12, opacity: 0.65, marginBottom: 6 }}>
                           {isUser ? "You" : "Assistant"}
                         </div>
-                        {m.content || (chatLoading && !isUser ? "…" : "")}
+                        {isEditing ? (
+                          <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+                            <textarea
+                              value={editing.text}
+                              onChange={(e) => setEditing({ id: editing.id, text: e.target.value })}
+                              rows={3}
+                              style={{ ...FIELD, fontSize: 14, resize: "vertical", minWidth: 260 }}
+                            />
+                            <div style={{ display: "flex", gap: 6, justifyContent: "flex-end" }}>
+                              <button onClick={() => setEditing(null)} style={MSG_ACTION}>
+                                Cancel
+                              </button>
+                              <button
+                                onClick={() => branchReply("edit", { messageId: editing.id, content: editing.text })}
+                                disabled={chatLoading || !editing.text.trim()}
+                                style={MSG_ACTION}
+                              >
+                                Save & send
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
+                          m.content || (chatLoading && !isUser ? "…" : "")
+                        )}
+                        {m.citations && m.citations.length > 0 && (
+                          <div
+                            style={{
+                              marginTop: 10,
+                              paddingTop: 8,
+                              borderTop: "1px solid rgba(255,255,255,0.10)",
+                              fontSize: 12,
+                              opacity: 0.8,
+                              whiteSpace: "normal",
+                            }}
+                          >
+                            <div style={{ opacity: 0.7, marginBottom: 4 }}>Sources</div>
+                            {m.citations.map((c) => (
+                              <div key={c.index} title={c.snippet} style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                                [{c.index}] {c.name} · part {c.chunk + 1}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {m.id !== undefined && !isEditing && (
+                          <div style={{ display: "flex", gap: 6, alignItems: "center", marginTop: 8, fontSize: 12 }}>
+                            {alt >= 0 && (
+                              <>
+                                <button
+                                  onClick={() => switchBranch(m.alternatives![alt - 1])}
+                                  disabled={alt === 0 || chatLoading}
+                                  style={MSG_ACTION}
+                                  title="Previous version"
+                                >
+                                  ‹
+                                </button>
+                                <span style={{ opacity: 0.7 }}>
+                                  {alt + 1}/{m.alternatives!.length}
+                                </span>
+                                <button
+                                  onClick={() => switchBranch(m.alternatives![alt + 1])}
+                                  disabled={alt === m.alternatives!.length - 1 || chatLoading}
+                                  style={MSG_ACTION}
+                                  title="Next version"
+                                >
+                                  ›
+                                </button>
+                              </>
+                            )}
+                            {isUser && (
+                              <button
+                                onClick={() => setEditing({ id: m.id!, text: m.content })}
+                                disabled={chatLoading}
+                                style={MSG_ACTION}
+                              >
+                                Edit
+                              </button>
+                            )}
+                            {!isUser && m.truncated && <span style={{ opacity: 0.6 }}>Stopped</span>}
+                            {!isUser && m.truncated && i === messages.length - 1 && (
+                              <button
+                                onClick={() => continueReply(m)}
+                                disabled={chatLoading}
+                                style={MSG_ACTION}
+                                title="Let the model finish this reply"
+                              >
+                                Continue
+                              </button>
+                            )}
+                            {!isUser && i === messages.length - 1 && (
+                              <button
+                                onClick={() => branchReply("regenerate", {})}
+                                disabled={chatLoading}
+                                style={MSG_ACTION}
+                                title="Answer again (the current reply is kept as another version)"
+                              >
+                                ↻ Regenerate
+                              </button>
+                            )}
+                          </div>
+                        )}
                       </div>
                     </div>
                   );
@@ -459,9 +2309,36 @@ export default function App() {
             }}
           >
             <div style={{ flex: 1, minWidth: 0 }}>
+              {attachedTaskId ? (
+                <div
+                  style={{
+                    display: "inline-flex",
+                    alignItems: "center",
+                    gap: 6,
+                    maxWidth: "100%",
+                    marginBottom: 8,
+                    padding: "4px 8px",
+                    borderRadius: 999,
+                    border: "1px solid rgba(34,197,94,0.35)",
+                    background: "rgba(34,197,94,0.12)",
+                    fontSize: 12,
+                  }}
+                >
+                  <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                    Task attached: {tasks.find((t) => t.id === attachedTaskId)?.goal ?? attachedTaskId.slice(0, 8)}
+                  </span>
+                  <button
+                    onClick={() => setAttachedTaskId(null)}
+                    title="Detach task"
+                    style={{ border: "none", background: "transparent", color: "#e6e6e6", cursor: "pointer", padding: 0 }}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ) : null}
               <textarea
                 value={input}
-                onChange={(e) => setInput(e.target.value)}
+                onChange={(e) => onInputChange(e.target.value)}
                 onKeyDown={onChatKeyDown}
                 placeholder="Enter to send · Shift+Enter for newline"
                 rows={2}
@@ -514,8 +2391,39 @@ export default function App() {
               >
                 {chatLoading && chatMode === "stream" ? "Streaming…" : "Stream"}
               </button>
+              <label
+                style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 12, opacity: socketOpen ? 0.85 : 0.5 }}
+                title="Stream over the WebSocket instead of an HTTP request (needs the connection)"
+              >
+                <input
+                  type="checkbox"
+                  checked={viaSocket}
+                  onChange={(e) => setViaSocket(e.target.checked)}
+                  disabled={!socketOpen}
+                />
+                Via WebSocket
+              </label>
+              {chatLoading && chatMode === "stream" && (
+                <button
+                  onClick={stopStream}
+                  disabled={streamQuestionId === null}
+                  style={{
+                    padding: "10px 12px",
+                    borderRadius: 12,
+                    border: "1px solid rgba(255,255,255,0.12)",
+                    background: "rgba(239, 68, 68, 0.20)",
+                    color: "#e6e6e6",
+                    cursor: streamQuestionId === null ? "not-allowed" : "pointer",
+                    fontWeight: 700,
+                  }}
+                  title="Stop the reply here (what was written so far is kept)"
+                >
+                  Stop
+                </button>
+              )}
             </div>
           </div>
+          </div>
         </div>
 
         {/* RIGHT: Workflows workspace */}
@@ -588,10 +2496,11 @@ export default function App() {
                   onChange={(e) => setAutoPoll(e.target.checked)}
                   style={{ transform: "translateY(1px)" }}
                 />
-                Auto-poll (every 2s)
+                Poll fallback (every 2s)
               </label>
 
               <div style={{ fontSize: 12, opacity: 0.65 }}>
+                {liveMode === "live" ? "Live · " : liveMode === "polling" ? "Polling · " : ""}
                 {lastPolledAt ? `Last updated: ${new Date(lastPolledAt).toLocaleTimeString()}` : "—"}
               </div>
             </div>
@@ -695,6 +2604,48 @@ export default function App() {
                     <Pill text={selectedTask.status.status} />
                   </div>
 
+                  <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+                    {(
+                      [
+                        ["pause", ["queued", "running", "waiting"].includes(selectedTask.status.status)],
+                        ["resume", selectedTask.status.status === "paused"],
+                        ["terminate", !isFinished(selectedTask.status.status)],
+                        ["restart", true],
+                        ["use in chat", selectedTask.status.status === "complete"],
+                      ] as const
+                    )
+                      .filter(([, enabled]) => enabled)
+                      .map(([action]) => (
+                        <button
+                          key={action}
+                          onClick={() =>
+                            action === "use in chat"
+                              ? setAttachedTaskId(selectedTask.id)
+                              : controlTask(selectedTask.id, action)
+                          }
+                          disabled={taskLoading}
+                          style={{
+                            padding: "6px 10px",
+                            borderRadius: 10,
+                            border: "1px solid rgba(255,255,255,0.12)",
+                            background:
+                              action === "terminate"
+                                ? "rgba(239,68,68,0.15)"
+                                : action === "use in chat"
+                                ? "rgba(34,197,94,0.15)"
+                                : "rgba(255,255,255,0.06)",
+                            color: "#e6e6e6",
+                            cursor: taskLoading ? "not-allowed" : "pointer",
+                            fontSize: 12,
+                            textTransform: "capitalize",
+                          }}
+                          title={action === "use in chat" ? "Attach this task's result to your next chat message" : undefined}
+                        >
+                          {action}
+                        </button>
+                      ))}
+                  </div>
+
                   <div style={{ fontSize: 12, opacity: 0.75 }}>
                     <div><b>ID:</b> {selectedTask.id}</div>
                     <div><b>Goal:</b> {selectedTask.goal}</div>
@@ -716,9 +2667,9 @@ export default function App() {
                   >
                     <b>Plan</b>
                     {"\n"}
-                    {Array.isArray((selectedTask.status.output as any)?.plan) ? (
+                    {Array.isArray(selectedTask.status.output?.plan) ? (
                       <ul style={{ margin: "8px 0 12px 18px" }}>
-                        {(selectedTask.status.output as any).plan.map((s: string, i: number) => (
+                        {selectedTask.status.output.plan.map((s, i) => (
                           <li key={i}>{s}</li>
                         ))}
                       </ul>
@@ -726,11 +2677,54 @@ export default function App() {
                       <div style={{ opacity: 0.75, marginTop: 6 }}>(No plan yet)</div>
                     )}
 
+                    {Array.isArray(selectedTask.status.output?.steps) ? (
+                      <>
+                        <b>Steps</b>
+                        <div style={{ display: "flex", flexDirection: "column", gap: 8, margin: "8px 0 12px" }}>
+                          {selectedTask.status.output.steps.map((st, i) => (
+                            <div
+                              key={i}
+                              style={{
+                                padding: 10,
+                                borderRadius: 10,
+                                border: "1px solid rgba(255,255,255,0.08)",
+                                background: "rgba(255,255,255,0.03)",
+                              }}
+                            >
+                              <div style={{ display: "flex", justifyContent: "space-between", gap: 8, alignItems: "center" }}>
+                                <b>
+                                  {i + 1}. {st.title}
+                                </b>
+                                <Pill text={st.status} />
+                              </div>
+                              <div style={{ marginTop: 6, opacity: 0.85 }}>{st.output}</div>
+                            </div>
+                          ))}
+                        </div>
+                      </>
+                    ) : null}
+
                     <b>Result</b>
                     {"\n\n"}
-                    {typeof (selectedTask.status.output as any)?.result === "string"
-                      ? (selectedTask.status.output as any).result
+                    {typeof selectedTask.status.output?.result === "string"
+                      ? selectedTask.status.output.result
                       : "(No result yet — keep polling until complete.)"}
+
+                    {Array.isArray(selectedTask.status.output?.trace) && selectedTask.status.output.trace.length > 0 ? (
+                      <>
+                        {"\n\n"}
+                        <b>Tool calls</b>
+                        <ol style={{ margin: "8px 0 0 18px", padding: 0 }}>
+                          {selectedTask.status.output.trace.map((c, i) => (
+                            <li key={i} style={{ marginBottom: 6 }}>
+                              {typeof c.step === "number" ? <span style={{ opacity: 0.6 }}>step {c.step + 1} · </span> : null}
+                              <code>{c.tool}({JSON.stringify(c.args)})</code>
+                              <div style={{ opacity: 0.75 }}>→ {c.output}</div>
+                            </li>
+                          ))}
+                        </ol>
+                      </>
+                    ) : null}
                   </div>
                 </div>
               )}
@@ -745,9 +2739,17 @@ export default function App() {
               grid-template-columns: 1fr !important;
               height: auto !important;
             }
+            .chat-sidebar {
+              width: 150px !important;
+            }
           }
         `}</style>
       </div>
+      )}
+
+      {user && showSettings && (
+        <SettingsDrawer onClose={() => setShowSettings(false)} onError={setError} />
+      )}
     </div>
   );
 }
\ No newline at end of file
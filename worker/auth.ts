@@ -0,0 +1,141 @@
+// Password hashing (PBKDF2) + HMAC-signed session tokens (HS256 JWT) using WebCrypto only.
+
+export type Credentials = { salt: string; hash: string; createdAt: number };
+export type SessionClaims = { sub: string; iat: number; exp: number };
+
+export const SESSION_COOKIE = "session";
+export const SESSION_TTL_SECONDS = 60 * 60 * 24 * 7; // 7 days
+
+// Workers caps PBKDF2 at 100k iterations
+const PBKDF2_ITERATIONS = 100_000;
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const b64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+// Usernames double as Durable Object names, so keep them to a safe, case-insensitive charset
+export function normalizeUsername(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const name = raw.trim().toLowerCase();
+  return /^[a-z0-9_.-]{3,32}$/.test(name) ? name : null;
+}
+
+// MemoryDO instance that counts sign-in attempts from one IP; ":" never appears in a username
+export function authLimiterName(ip: string): string {
+  return `ip:${ip}`;
+}
+
+export function isValidPassword(raw: unknown): raw is string {
+  return typeof raw === "string" && raw.length >= 8 && raw.length <= 256;
+}
+
+async function pbkdf2(password: string, salt: Uint8Array): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(password), "PBKDF2", false, [
+    "deriveBits",
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+  return new Uint8Array(bits);
+}
+
+export async function hashPassword(password: string): Promise<Credentials> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await pbkdf2(password, salt);
+  return { salt: toBase64Url(salt), hash: toBase64Url(hash), createdAt: Date.now() };
+}
+
+export async function verifyPassword(password: string, creds: Credentials): Promise<boolean> {
+  const actual = await pbkdf2(password, fromBase64Url(creds.salt));
+  const expected = fromBase64Url(creds.hash);
+  if (actual.length !== expected.length) return false;
+
+  // constant-time compare
+  let diff = 0;
+  for (let i = 0; i < actual.length; i++) diff |= actual[i] ^ expected[i];
+  return diff === 0;
+}
+
+function hmacKey(secret: string) {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+export async function signSession(sub: string, secret: string): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: SessionClaims = { sub, iat: now, exp: now + SESSION_TTL_SECONDS };
+
+  const header = toBase64Url(encoder.encode(JSON.stringify({ alg: "HS256", typ: "JWT" })));
+  const payload = toBase64Url(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await hmacKey(secret),
+    encoder.encode(`${header}.${payload}`)
+  );
+
+  return `${header}.${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// Returns the claims of a valid, unexpired token, otherwise null
+export async function verifySession(token: string, secret: string): Promise<SessionClaims | null> {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return null;
+
+  try {
+    const ok = await crypto.subtle.verify(
+      "HMAC",
+      await hmacKey(secret),
+      fromBase64Url(signature),
+      encoder.encode(`${header}.${payload}`)
+    );
+    if (!ok) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as SessionClaims;
+    if (typeof claims.sub !== "string" || claims.exp < Math.floor(Date.now() / 1000)) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+export function readCookie(request: Request, name: string): string | null {
+  const header = request.headers.get("cookie");
+  if (!header) return null;
+
+  for (const part of header.split(";")) {
+    const [k, ...v] = part.trim().split("=");
+    if (k === name) return v.join("=");
+  }
+  return null;
+}
+
+export function sessionCookie(token: string, maxAge = SESSION_TTL_SECONDS): string {
+  return `${SESSION_COOKIE}=${token}; HttpOnly; Secure; SameSite=Lax; Path=/; Max-Age=${maxAge}`;
+}
+
+// Session token from the cookie, or an `Authorization: Bearer` header for API clients
+export async function authenticate(request: Request, secret: string): Promise<string | null> {
+  const bearer = request.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const token = bearer ?? readCookie(request, SESSION_COOKIE);
+  if (!token) return null;
+
+  const claims = await verifySession(token, secret);
+  return claims?.sub ?? null;
+}
@@ -0,0 +1,299 @@
+import type { Env } from "./index";
+import { DEFAULT_CONVERSATION_ID } from "./memory_do";
+import type { MemoryStub } from "./memory_do";
+import { estimateTokens, parseBudget, summarize, taskContext, windowHistory } from "./context_window";
+import type { ChatMessage } from "./context_window";
+import { consumeTokens, tokensUsed } from "./rate_limit";
+import { selectModel } from "./models";
+import { InferenceError, runInference } from "./inference";
+import { memoryContext, recallMemories, rememberTurn } from "./long_term_memory";
+import { docsContext, retrieveChunks } from "./documents";
+import { renderTemplate, templateVariables, today } from "./prompts";
+import { traceError } from "./tracing";
+import type { Trace } from "./tracing";
+import { parseUpstream, splitFrames } from "./sse";
+import type { ChatStreamEvent, Citation, ModelInfo, ModelParams, StoredMessage } from "../shared/types";
+
+// Chat turns: the model's context, and streamed replies. Used by the HTTP routes (worker/index.ts)
+// and by the WebSocket transport in MemoryDO.
+
+// How often a running stream checks for a stop request (POST /api/chat/stop, a socket's cancel)
+const STOP_POLL_MS = 1000;
+
+// Sent after a truncated reply to have the model finish it
+const CONTINUE_PROMPT = "Continue your last answer exactly where it stopped. Do not repeat what you already wrote.";
+
+/**
+ * Loads a conversation and fits it into the token budget. Messages that fall out of the
+ * window are folded into the stored running summary, which is injected after the selected
+ * persona's system prompt, followed by long-term memories (unless the persona places them
+ * itself) and document excerpts relevant to `query`, completed task results (and the task
+ * attached via `taskId`, if any). `citations` number the excerpts.
+ */
+export async function buildContext(
+  env: Env,
+  stub: MemoryStub,
+  opts: {
+    userId: string;
+    conversationId: string;
+    query: string;
+    taskId?: string;
+    model: ModelInfo;
+    params: ModelParams;
+    trace: Trace; // summary tokens are added to it
+  }
+): Promise<{ messages: ChatMessage[]; citations: Citation[] }> {
+  const { userId, conversationId, query, taskId, model, params, trace } = opts;
+  // Only messages not yet covered by the summary are candidates for the window
+  const { history, summary } = await stub.getHistory(conversationId, { uncovered: true });
+
+  const tasksContext = taskContext(await stub.listTasks(), taskId);
+  const recalled = memoryContext(await recallMemories(env, stub, query, history));
+  const docs = docsContext(await retrieveChunks(env, stub, query));
+
+  const persona = await stub.activePersona();
+  const inlineMemories = templateVariables(persona.prompt).includes("memories");
+  const system: ChatMessage = {
+    role: "system",
+    content: renderTemplate(persona.prompt, {
+      user: userId,
+      date: today(),
+      memories: inlineMemories ? (recalled[0]?.content ?? "") : "",
+    }),
+  };
+  const memories = inlineMemories ? [] : recalled;
+
+  const summaryMessage = (text: string): ChatMessage => ({
+    role: "system",
+    content: `Summary of the earlier conversation:\n${text}`,
+  });
+
+  // The configured budget, capped so prompt + completion still fit the model's context window
+  let budget =
+    Math.min(parseBudget(env.HISTORY_TOKEN_BUDGET), model.contextWindow - params.max_tokens) -
+    estimateTokens(system);
+  if (summary.text) budget -= estimateTokens(summaryMessage(summary.text));
+  for (const m of [...memories, ...docs.messages, ...tasksContext]) budget -= estimateTokens(m);
+
+  const { dropped, kept } = windowHistory(history, budget);
+  let currentSummary = summary.text;
+
+  if (dropped.length > 0) {
+    try {
+      const folded = await summarize(env.AI, summary.text, dropped);
+      currentSummary = folded.text;
+      trace.tokens += folded.tokens;
+      await consumeTokens(stub, folded.tokens);
+      await stub.compact(conversationId, dropped[dropped.length - 1].id, currentSummary);
+    } catch (e) {
+      // Answer without folding; the dropped messages stay uncovered and are folded next time
+      if (!(e instanceof InferenceError)) throw e;
+    }
+  }
+
+  const messages = [
+    system,
+    ...(currentSummary ? [summaryMessage(currentSummary)] : []),
+    ...memories,
+    ...docs.messages,
+    ...tasksContext,
+    // Only role + content go to the model
+    ...kept.map(({ role, content }) => ({ role, content })),
+  ];
+  return { messages, citations: docs.citations };
+}
+
+// Removes the user message a chat request appended when no model could answer it
+export async function rollbackUserMessage(stub: MemoryStub, conversationId: string, content: string) {
+  await stub.rollback(conversationId, content).catch(() => {});
+}
+
+
+export type StreamRequest = {
+  message?: string; // a new user message...
+  messageId?: number; // ...or, when continuing, the truncated reply (the active branch's head)
+  conversationId?: string;
+  taskId?: string; // attach a completed task's output as context
+  model?: string; // one of GET /api/models
+  params?: unknown; // { max_tokens?, temperature?, top_p? }
+};
+
+// A streamed turn whose model stream is open
+export type OpenStream = {
+  conversationId: string;
+  question: StoredMessage; // the user message answered
+  previous: StoredMessage | null; // the truncated reply being continued, if any
+  messages: ChatMessage[]; // what the model was sent
+  citations: Citation[];
+  served: ModelInfo; // the model that answered (after fallbacks)
+  upstream: ReadableStream;
+};
+
+/**
+ * Starts a streamed turn: stores the user message (or picks up the truncated reply to continue),
+ * builds the context and opens the model's stream. Request errors come back as a status and
+ * message; when no model answers, the user message is removed again and the InferenceError
+ * (retries/fallbacks only apply until the stream opens) is thrown.
+ */
+export async function openStream(
+  env: Env,
+  stub: MemoryStub,
+  opts: { userId: string; body: StreamRequest; continuing: boolean; trace: Trace }
+): Promise<{ ok: true; stream: OpenStream } | { ok: false; status: number; error: string }> {
+  const { userId, body, continuing, trace } = opts;
+  const { conversationId = DEFAULT_CONVERSATION_ID, taskId } = body;
+
+  const selected = selectModel(body, { streaming: true });
+  if (!selected.ok) return { ok: false, status: 400, error: selected.error };
+  const { model, params } = selected;
+
+  // Only the user's own tasks can be attached
+  if (taskId && !(await stub.getTask(taskId))) return { ok: false, status: 404, error: "Task not found" };
+
+  // The user message to answer, and the reply being continued (if any)
+  let question: StoredMessage;
+  let previous: StoredMessage | null = null;
+  if (continuing) {
+    const started =
+      typeof body.messageId === "number" ? await stub.beginContinue(conversationId, body.messageId) : null;
+    if (!started) {
+      return { ok: false, status: 409, error: "Only the last reply can be continued, and only if it was cut short" };
+    }
+    ({ question, reply: previous } = started);
+  } else {
+    // Save user message first
+    question = await stub.append(conversationId, "user", body.message ?? "");
+  }
+
+  // Load history for context (windowed to the token budget)
+  const context = await buildContext(env, stub, {
+    userId,
+    conversationId,
+    query: question.content,
+    taskId,
+    model,
+    params,
+    trace,
+  });
+  // A continuation sees its partial reply as the last message
+  const messages: ChatMessage[] = previous
+    ? [...context.messages, { role: "user", content: CONTINUE_PROMPT }]
+    : context.messages;
+
+  try {
+    const { result, model: served } = await runInference<ReadableStream>(env.AI, model, {
+      messages,
+      params,
+      stream: true,
+    });
+    trace.model = served.id;
+    return {
+      ok: true,
+      stream: { conversationId, question, previous, messages, citations: context.citations, served, upstream: result },
+    };
+  } catch (e) {
+    if (e instanceof InferenceError && !previous) await rollbackUserMessage(stub, conversationId, question.content);
+    throw e;
+  }
+}
+
+/**
+ * Re-emits the model's stream as ChatStreamEvents (start ... done, see shared/types.ts) through
+ * `send`, then stores the reply. It runs to the end whether or not anyone is still listening; a
+ * stop request for the question ends it early, and the reply is stored as truncated.
+ */
+export async function relayStream(
+  env: Env,
+  stub: MemoryStub,
+  stream: OpenStream,
+  send: (event: ChatStreamEvent) => void,
+  opts: { trace: Trace; waitUntil: (promise: Promise<unknown>) => void }
+): Promise<void> {
+  const { conversationId, question, previous, messages, citations, served } = stream;
+  const { trace, waitUntil } = opts;
+  const decoder = new TextDecoder();
+  const reader = stream.upstream.getReader();
+
+  let full = "";
+  let buffer = "";
+  let usage: { total_tokens?: number } | undefined;
+  // Set by a stop request; ends the upstream read
+  let stopped = false;
+
+  await stub.streamStarted(question.id);
+  send({ type: "start", conversationId, questionId: question.id, model: served.id });
+
+  const poll = setInterval(() => {
+    stub.takeStop(question.id).then(
+      (requested) => {
+        if (!requested) return;
+        stopped = true;
+        reader.cancel().catch(() => {});
+      },
+      () => {}
+    );
+  }, STOP_POLL_MS);
+
+  let error: string | null = null;
+  let finished = false;
+  try {
+    while (!finished && !error && !stopped) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      const split = splitFrames(buffer + decoder.decode(value, { stream: true }));
+      buffer = split.rest;
+      for (const payload of split.data) {
+        const chunk = parseUpstream(payload);
+        if (!chunk) continue; // ignore non-JSON data lines
+        if (chunk.done) finished = true;
+        if (chunk.usage) usage = chunk.usage;
+        if (chunk.error) error ??= chunk.error;
+        if (chunk.text) {
+          if (trace.ttftMs === undefined) trace.ttftMs = Date.now() - trace.start;
+          full += chunk.text;
+          send({ type: "delta", text: chunk.text });
+        }
+      }
+    }
+    // Without the [DONE] sentinel the reply was cut off
+    if (!finished && !error && !stopped) error = "The model stream ended unexpectedly";
+  } catch (e) {
+    // The upstream stream broke mid-reply (reads after a stop are expected to fail)
+    if (!stopped) error = (e as Error)?.message ?? String(e);
+  }
+  clearInterval(poll);
+  await stub.streamEnded(question.id).catch(() => {});
+  if (error) reader.cancel().catch(() => {});
+  const truncated = !finished || error !== null;
+
+  const tokens = tokensUsed({ usage }, messages, full) * served.costWeight;
+  trace.tokens += tokens;
+  await consumeTokens(stub, tokens);
+  send({ type: "usage", tokens: Math.ceil(tokens) });
+
+  if (citations.length > 0) send({ type: "citations", citations });
+  if (error) {
+    traceError(trace, error);
+    send({ type: "error", error });
+  }
+
+  // Store whatever text arrived (best-effort). A failure with nothing to store undoes a new user
+  // message too; a stop keeps it, with an empty truncated reply that can be continued
+  let replyId: number | null = null;
+  try {
+    if (previous) {
+      replyId = (await stub.extendReply(conversationId, previous.id, full, truncated))?.id ?? null;
+    } else if (full.trim().length > 0 || stopped) {
+      replyId = (await stub.append(conversationId, "assistant", full, question.id, truncated)).id;
+      if (full.trim().length > 0) {
+        waitUntil(rememberTurn(env, stub, { conversationId, question: question.content, answer: full }));
+      }
+    } else {
+      await rollbackUserMessage(stub, conversationId, question.content);
+    }
+  } catch (e) {
+    traceError(trace, e);
+  }
+  send({ type: "done", questionId: replyId === null ? null : question.id, replyId, truncated });
+}
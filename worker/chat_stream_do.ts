@@ -0,0 +1,117 @@
+import type { ChatStreamEvent } from "../shared/types";
+import { sseFrame } from "./sse";
+
+// One instance per streamed reply: the chat stream routes publish every event here as they send
+// it, so a client that lost its connection can replay what it missed (GET /events with
+// Last-Event-ID) and follow the rest live. Kept for a few minutes after the last event.
+
+export type BufferedEvent = { seq: number; event: ChatStreamEvent };
+
+// How long a stream can be resumed after its last event
+const REPLAY_TTL_MS = 5 * 60 * 1000;
+
+// Instance name: question ids are per user, so the user is part of it
+export function chatStreamName(userId: string, questionId: number): string {
+  return `${userId}:${questionId}`;
+}
+
+// Batches are stored under their first seq, zero-padded so they list in order
+function batchKey(seq: number) {
+  return `batch:${String(seq).padStart(8, "0")}`;
+}
+
+function isDone(e: BufferedEvent) {
+  return e.event.type === "done";
+}
+
+export class ChatStreamDO {
+  private state: DurableObjectState;
+  // Resumed clients, with the last seq each has been sent
+  private subscribers = new Map<WritableStreamDefaultWriter<Uint8Array>, number>();
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+  }
+
+  private async broadcast(events: BufferedEvent[]) {
+    for (const [writer, lastId] of [...this.subscribers]) {
+      try {
+        for (const e of events) {
+          if (e.seq > lastId) await writer.write(sseFrame(e.event, e.seq));
+        }
+        this.subscribers.set(writer, Math.max(lastId, events[events.length - 1].seq));
+      } catch {
+        // client went away
+        this.subscribers.delete(writer);
+      }
+    }
+  }
+
+  private closeAll() {
+    for (const writer of this.subscribers.keys()) writer.close().catch(() => {});
+    this.subscribers.clear();
+  }
+
+  private async events(): Promise<BufferedEvent[]> {
+    const batches = await this.state.storage.list<BufferedEvent[]>({ prefix: "batch:" });
+    return [...batches.values()].flat();
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    // A batch of events, in order; seq 1 starts a new stream (continuing a reply reuses its
+    // question id), which replaces the old log
+    if (request.method === "POST" && url.pathname === "/publish") {
+      const events = await request.json<BufferedEvent[]>();
+      if (events.length === 0) return Response.json({ ok: true });
+
+      if (events[0].seq === 1) {
+        this.closeAll();
+        await this.state.storage.deleteAll();
+      }
+      await this.state.storage.put(batchKey(events[0].seq), events);
+      await this.state.storage.setAlarm(Date.now() + REPLAY_TTL_MS);
+
+      await this.broadcast(events);
+      if (events.some(isDone)) this.closeAll();
+      return Response.json({ ok: true });
+    }
+
+    // SSE: replay everything after Last-Event-ID, then stay open until the done event
+    if (request.method === "GET" && url.pathname === "/events") {
+      const lastId = Number(request.headers.get("Last-Event-ID") ?? 0) || 0;
+      const events = await this.events();
+      if (events.length === 0) return new Response("No stream to resume", { status: 404 });
+
+      const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+      const writer = writable.getWriter();
+
+      for (const e of events) {
+        if (e.seq > lastId) writer.write(sseFrame(e.event, e.seq)).catch(() => {});
+      }
+
+      if (events.some(isDone)) {
+        writer.close().catch(() => {});
+      } else {
+        this.subscribers.set(writer, Math.max(lastId, events[events.length - 1].seq));
+      }
+
+      return new Response(readable, {
+        headers: {
+          "content-type": "text/event-stream",
+          "cache-control": "no-cache",
+          "connection": "keep-alive",
+        },
+      });
+    }
+
+    return new Response("Not found", { status: 404 });
+  }
+
+  // Expired: a stream still open here lost its producer
+  async alarm() {
+    this.closeAll();
+    await this.state.storage.deleteAll();
+  }
+}
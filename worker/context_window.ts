@@ -0,0 +1,123 @@
+import type { Env } from "./index";
+import { tokensUsed } from "./rate_limit";
+import type { TaskRecord } from "../shared/types";
+import { DEFAULT_MODEL_ID, getModel } from "./models";
+import { runInference } from "./inference";
+import type { TextResult } from "./inference";
+
+export type ChatMessage = { role: string; content: string };
+
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 3000;
+
+// Rough heuristic (~4 chars per token + per-message overhead); good enough for budgeting
+export function estimateTokens(msg: ChatMessage): number {
+  return Math.ceil(msg.content.length / 4) + 4;
+}
+
+export function parseBudget(value: string | undefined): number {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : DEFAULT_HISTORY_TOKEN_BUDGET;
+}
+
+// How many completed tasks are always visible to chat, and how much of each
+const RECENT_TASKS = 3;
+const RECENT_TASK_CHARS = 600;
+const ATTACHED_TASK_CHARS = 4000;
+
+function describeTask(task: TaskRecord, maxChars: number, withSteps: boolean): string {
+  const output = (task.output ?? {}) as {
+    result?: string;
+    steps?: { title: string; output: string }[];
+  };
+  const lines = [`Task ${task.id} (${new Date(task.createdAt).toISOString()})`, `Goal: ${task.goal}`];
+  if (withSteps && Array.isArray(output.steps)) {
+    output.steps.forEach((s, i) => lines.push(`Step ${i + 1} (${s.title}): ${s.output}`));
+  }
+  lines.push(`Result: ${output.result ?? "(none)"}`);
+  return lines.join("\n").slice(0, maxChars);
+}
+
+/**
+ * Completed workflow results the chat can refer to: a short digest of the most recent tasks
+ * ("use the result of my last task"), plus the full output of an explicitly attached task.
+ */
+export function taskContext(tasks: TaskRecord[], attachedTaskId?: string): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  const completed = tasks.filter((t) => t.status === "complete" && t.output);
+
+  if (completed.length > 0) {
+    messages.push({
+      role: "system",
+      content:
+        "Results of the user's most recent completed tasks (newest first). Use them when the user refers to a previous task:\n\n" +
+        completed
+          .slice(0, RECENT_TASKS)
+          .map((t) => describeTask(t, RECENT_TASK_CHARS, false))
+          .join("\n\n"),
+    });
+  }
+
+  const attached = attachedTaskId ? tasks.find((t) => t.id === attachedTaskId) : undefined;
+  if (attached) {
+    messages.push({
+      role: "system",
+      content: `The user attached this task as context for their message:\n${describeTask(
+        attached,
+        ATTACHED_TASK_CHARS,
+        true
+      )}`,
+    });
+  }
+
+  return messages;
+}
+
+/**
+ * Splits history into the newest messages that fit `budget` tokens and the older ones
+ * that fall out of the window. The latest message is always kept.
+ */
+export function windowHistory<T extends ChatMessage>(history: T[], budget: number) {
+  let used = 0;
+  let start = history.length;
+
+  while (start > 0) {
+    const cost = estimateTokens(history[start - 1]);
+    if (start < history.length && used + cost > budget) break;
+    used += cost;
+    start--;
+  }
+
+  return { dropped: history.slice(0, start), kept: history.slice(start) };
+}
+
+// Folds messages that left the window into the running summary
+export async function summarize(
+  ai: Env["AI"],
+  previousSummary: string,
+  dropped: ChatMessage[]
+): Promise<{ text: string; tokens: number }> {
+  const transcript = dropped.map((m) => `${m.role}: ${m.content}`).join("\n");
+
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content:
+        "You maintain a running summary of a conversation. Merge the previous summary with the new transcript. Keep facts about the user, their goals and open problems. Max ~150 words. Reply with the summary only.",
+    },
+    {
+      role: "user",
+      content: `Previous summary:\n${previousSummary || "(none)"}\n\nNew transcript:\n${transcript}`,
+    },
+  ];
+
+  // Summaries always start with the default model so quality doesn't depend on the chat's model choice
+  const { result: r, model } = await runInference<TextResult>(
+    ai,
+    getModel(DEFAULT_MODEL_ID)!,
+    { messages, params: { max_tokens: 300, temperature: 0.1 } }
+  );
+
+  const text = String(r?.response ?? r?.output_text ?? "").trim();
+  // If the model returns nothing, keep the old summary rather than losing it
+  return { text: text || previousSummary, tokens: tokensUsed(r, messages, text) * model.costWeight };
+}
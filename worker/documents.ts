@@ -0,0 +1,95 @@
+import type { Env } from "./index";
+import type { ChatMessage } from "./context_window";
+import { runEmbedding } from "./inference";
+import { EMBEDDING_MODEL } from "./long_term_memory";
+import type { MemoryStub } from "./memory_do";
+import { consumeTokens, embeddingTokens } from "./rate_limit";
+import type { Citation, DocumentHit } from "../shared/types";
+
+// Per-user documents (text / Markdown, or text extracted from PDFs client-side): chunked,
+// embedded and stored in MemoryDO's SQLite tables, then retrieved and cited in chat answers.
+
+export const MAX_DOC_CHARS = 200_000;
+const CHUNK_CHARS = 800;
+const CHUNK_OVERLAP = 100;
+// Workers AI embedding calls take a batch of texts; keep each request modest
+const EMBED_BATCH = 50;
+
+export const DOC_TOP_K = 4;
+export const MIN_DOC_SCORE = 0.6;
+
+/**
+ * Splits text into ~CHUNK_CHARS pieces with some overlap, preferring paragraph, line and
+ * sentence boundaries so chunks stay readable in citations.
+ */
+export function chunkText(text: string): string[] {
+  const clean = text.replace(/\r\n/g, "\n").trim();
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < clean.length) {
+    let end = Math.min(clean.length, start + CHUNK_CHARS);
+    if (end < clean.length) {
+      const window = clean.slice(start, end);
+      const cut = Math.max(window.lastIndexOf("\n\n"), window.lastIndexOf("\n"), window.lastIndexOf(". "));
+      if (cut > CHUNK_CHARS / 2) end = start + cut + 1;
+    }
+
+    const chunk = clean.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= clean.length) break;
+    start = Math.max(start + 1, end - CHUNK_OVERLAP);
+  }
+
+  return chunks;
+}
+
+// Each batch is charged to the user's daily tokens as it is embedded
+export async function embedChunks(ai: Env["AI"], stub: MemoryStub, chunks: string[]): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (let i = 0; i < chunks.length; i += EMBED_BATCH) {
+    const batch = chunks.slice(i, i + EMBED_BATCH);
+    vectors.push(...(await runEmbedding(ai, EMBEDDING_MODEL, batch)));
+    await consumeTokens(stub, embeddingTokens(batch));
+  }
+  return vectors;
+}
+
+// Best-effort like memory recall: chat still works when embedding fails
+export async function retrieveChunks(
+  env: Env,
+  stub: MemoryStub,
+  query: string
+): Promise<DocumentHit[]> {
+  try {
+    const [embedding] = await runEmbedding(env.AI, EMBEDDING_MODEL, [query]);
+    await consumeTokens(stub, embeddingTokens([query]));
+    return await stub.searchDocuments(embedding, DOC_TOP_K, MIN_DOC_SCORE);
+  } catch {
+    return [];
+  }
+}
+
+// Numbered sources the model is asked to cite as [n]; citation n matches source n
+export function docsContext(hits: DocumentHit[]): { messages: ChatMessage[]; citations: Citation[] } {
+  if (hits.length === 0) return { messages: [], citations: [] };
+
+  const sources = hits.map((h, i) => `[${i + 1}] ${h.name} (part ${h.chunk + 1}):\n${h.content}`);
+  return {
+    messages: [
+      {
+        role: "system",
+        content:
+          "Excerpts from the user's documents. When you use one, cite it as [n]. Ignore excerpts that are not relevant.\n\n" +
+          sources.join("\n\n"),
+      },
+    ],
+    citations: hits.map((h, i) => ({
+      index: i + 1,
+      docId: h.docId,
+      name: h.name,
+      chunk: h.chunk,
+      snippet: h.content.slice(0, 200),
+    })),
+  };
+}
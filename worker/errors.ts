@@ -0,0 +1,86 @@
+import type { ApiErrorCode } from "../shared/types";
+
+// Every /api error response has the body { error: { code, message, requestId } } (ApiErrorBody in
+// shared/types.ts). Routes return `new Response(message, { status })`, JSON whose `error` is a
+// string or { code, message, ...details }, or throw a RequestError; the Worker's fetch rewrites
+// all of them into that shape.
+
+const STATUS_CODES: Record<number, ApiErrorCode> = {
+  400: "bad_request",
+  401: "unauthorized",
+  403: "forbidden",
+  404: "not_found",
+  405: "method_not_allowed",
+  409: "conflict",
+  413: "payload_too_large",
+  426: "upgrade_required",
+  429: "rate_limited",
+  500: "internal_error",
+  502: "model_unavailable",
+};
+
+export function errorCode(status: number): ApiErrorCode {
+  return STATUS_CODES[status] ?? (status >= 500 ? "internal_error" : "bad_request");
+}
+
+// A request the route can't serve (bad body, too large, ...); answered with `status`
+export class RequestError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+
+  constructor(status: number, message: string, code: ApiErrorCode = errorCode(status)) {
+    super(message);
+    this.name = "RequestError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export function requestErrorResponse(e: RequestError): Response {
+  return Response.json({ error: { code: e.code, message: e.message } }, { status: e.status });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Rewrites an error response into the envelope, with the request id. A plain-text body becomes the
+ * message; JSON keeps its `code` and details (`retryAfter`, `attempts`). Returns the message too,
+ * for the log.
+ */
+export async function errorEnvelope(
+  response: Response,
+  requestId: string
+): Promise<{ response: Response; message: string }> {
+  const text = await response.text().catch(() => "");
+  let message = text.trim();
+  let code = errorCode(response.status);
+  let details: Record<string, unknown> = {};
+  try {
+    const body: unknown = JSON.parse(text);
+    if (isRecord(body)) {
+      const { error, ...rest } = body;
+      if (isRecord(error)) {
+        const { code: ownCode, message: ownMessage, ...rest } = error;
+        if (typeof ownCode === "string") code = ownCode as ApiErrorCode;
+        if (typeof ownMessage === "string") message = ownMessage;
+        details = rest;
+      } else {
+        if (typeof error === "string") message = error;
+        details = rest;
+      }
+    }
+  } catch {
+    // plain-text error
+  }
+  message ||= response.statusText || `Request failed (${response.status})`;
+
+  const headers = new Headers(response.headers);
+  headers.delete("Content-Length");
+  headers.set("Content-Type", "application/json");
+  return {
+    message,
+    response: Response.json({ error: { code, message, requestId, ...details } }, { status: response.status, headers }),
+  };
+}
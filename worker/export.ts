@@ -0,0 +1,238 @@
+import type {
+  ChatExport,
+  ExportedConversation,
+  Role,
+  StepResult,
+  TaskOutput,
+  TaskRecord,
+  ToolCall,
+} from "../shared/types";
+
+// Conversation export / import. JSON is the lossless round-trip format (threads, summaries and
+// the task registry); Markdown is for reading; JSONL holds one OpenAI-style chat record per
+// thread ({"messages":[{role, content}, ...]}) for eval and fine-tuning datasets.
+
+export const EXPORT_FORMATS = ["json", "markdown", "jsonl"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Largest request body POST /api/history/import accepts
+export const MAX_IMPORT_CHARS = 5_000_000;
+
+const ROLE_LABELS: Record<Role, string> = { system: "System", user: "You", assistant: "Assistant" };
+
+// Index of message `i`'s parent (null for a root), applying the "previous message" default
+export function parentIndex(c: ExportedConversation, i: number): number | null {
+  const parent = c.messages[i].parent;
+  return parent === undefined ? (i > 0 ? i - 1 : null) : parent;
+}
+
+// Indices of the messages on the active branch, root first
+export function activeBranch(c: ExportedConversation): number[] {
+  const branch: number[] = [];
+  for (let i: number | null = c.messages.length > 0 ? c.head ?? c.messages.length - 1 : null; i !== null; ) {
+    branch.unshift(i);
+    i = parentIndex(c, i);
+  }
+  return branch;
+}
+
+export function exportBody(data: ChatExport, format: ExportFormat): { body: string; contentType: string } {
+  switch (format) {
+    case "json":
+      return { body: JSON.stringify(data, null, 2), contentType: "application/json" };
+    case "markdown":
+      return { body: toMarkdown(data), contentType: "text/markdown; charset=utf-8" };
+    case "jsonl":
+      return { body: toJsonl(data), contentType: "application/jsonl" };
+  }
+}
+
+function toMarkdown(data: ChatExport): string {
+  const date = (ms: number) => new Date(ms).toISOString().replace("T", " ").slice(0, 16);
+  const out = [`# Chat export (${date(data.exportedAt)} UTC)`];
+
+  for (const c of data.conversations) {
+    out.push(`## ${c.title}`);
+    if (c.summary?.text) out.push(`> Summary of the first ${c.summary.coveredMessages} messages: ${c.summary.text}`);
+    // Other branches (earlier edits and regenerations) are in the JSON export only
+    for (const m of activeBranch(c).map((i) => c.messages[i])) {
+      out.push(`**${ROLE_LABELS[m.role]}** · ${date(m.createdAt)}\n\n${m.content}`);
+    }
+  }
+
+  if (data.tasks.length > 0) {
+    out.push("## Tasks");
+    for (const t of data.tasks) {
+      out.push(`### ${t.goal}\n\nStatus: ${t.status} · ${date(t.createdAt)}`);
+      if (t.output) {
+        out.push(t.output.steps.map((s, i) => `${i + 1}. **${s.title}** (${s.status}): ${s.output}`).join("\n"));
+        out.push(`**Result:** ${t.output.result}`);
+      }
+      if (t.error) out.push(`**Error:** ${t.error}`);
+    }
+  }
+
+  return out.join("\n\n") + "\n";
+}
+
+// The active branch of each thread; threads with no messages have nothing to train on and are left out
+function toJsonl(data: ChatExport): string {
+  return data.conversations
+    .filter((c) => c.messages.length > 0)
+    .map((c) => {
+      const messages = activeBranch(c).map((i) => ({ role: c.messages[i].role, content: c.messages[i].content }));
+      return JSON.stringify({ messages }) + "\n";
+    })
+    .join("");
+}
+
+type Parsed = { ok: true; data: ChatExport } | { ok: false; error: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isIndex(value: unknown, below: number): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) < below;
+}
+
+// Messages of one thread; a `parent` must point at an earlier message (JSON exports only)
+function parseMessages(value: unknown, now: number, tree: boolean): ExportedConversation["messages"] | null {
+  if (!Array.isArray(value)) return null;
+  const messages: ExportedConversation["messages"] = [];
+  for (const [i, m] of value.entries()) {
+    if (!isRecord(m) || !Object.keys(ROLE_LABELS).includes(m.role as string) || typeof m.content !== "string") {
+      return null;
+    }
+    if (!tree) {
+      // Threads never store system prompts (each request adds its own); datasets often start with one
+      if (m.role === "system") continue;
+    } else if (m.parent !== undefined && m.parent !== null && !isIndex(m.parent, i)) {
+      return null;
+    }
+    messages.push({
+      role: m.role as Role,
+      content: m.content,
+      createdAt: typeof m.createdAt === "number" ? m.createdAt : now,
+      ...(tree && m.parent !== undefined ? { parent: m.parent as number | null } : {}),
+      ...(tree && m.truncated === true ? { truncated: true } : {}),
+    });
+  }
+  return messages;
+}
+
+const STEP_STATUSES: StepResult["status"][] = ["complete", "failed", "running"];
+
+// A task's output as TaskWorkflow writes it; null if a step or the result is malformed. Tool calls
+// that don't fit are dropped, since they are only shown as a trace
+function parseTaskOutput(value: unknown): TaskOutput | null {
+  if (!isRecord(value) || !Array.isArray(value.steps) || typeof value.result !== "string") return null;
+  const steps: StepResult[] = [];
+  for (const s of value.steps) {
+    if (!isRecord(s) || typeof s.title !== "string" || typeof s.output !== "string") return null;
+    if (!STEP_STATUSES.includes(s.status as StepResult["status"])) return null;
+    steps.push({ title: s.title, output: s.output, status: s.status as StepResult["status"] });
+  }
+  const plan = Array.isArray(value.plan) ? value.plan.filter((p): p is string => typeof p === "string") : [];
+  const trace = (Array.isArray(value.trace) ? value.trace : []).filter(
+    (c): c is ToolCall =>
+      isRecord(c) && typeof c.tool === "string" && isRecord(c.args) && typeof c.output === "string"
+  );
+  return { plan, steps, result: value.result, trace };
+}
+
+/**
+ * Checks an uploaded JSON export. Conversations and tasks are validated field by field, so a
+ * hand-edited or foreign file fails with a message instead of corrupting the store.
+ */
+export function parseJsonExport(text: string): Parsed {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "Invalid JSON" };
+  }
+  if (!isRecord(value) || value.version !== 1 || !Array.isArray(value.conversations)) {
+    return { ok: false, error: "Not a chat export (expected { version: 1, conversations, tasks })" };
+  }
+
+  const now = Date.now();
+  const conversations: ExportedConversation[] = [];
+  for (const [i, c] of value.conversations.entries()) {
+    const messages = isRecord(c) ? parseMessages(c.messages, now, true) : null;
+    if (
+      !isRecord(c) ||
+      typeof c.id !== "string" ||
+      !c.id ||
+      !messages ||
+      (c.head !== undefined && !isIndex(c.head, messages.length))
+    ) {
+      return { ok: false, error: `conversations[${i}] is invalid` };
+    }
+    const summary = isRecord(c.summary) && typeof c.summary.text === "string" ? c.summary : null;
+    conversations.push({
+      id: c.id,
+      title: typeof c.title === "string" ? c.title : "",
+      createdAt: typeof c.createdAt === "number" ? c.createdAt : now,
+      updatedAt: typeof c.updatedAt === "number" ? c.updatedAt : now,
+      head: c.head as number | undefined,
+      summary: summary
+        ? { text: summary.text as string, coveredMessages: Math.max(0, Number(summary.coveredMessages) || 0) }
+        : undefined,
+      messages,
+    });
+  }
+
+  const tasks: TaskRecord[] = [];
+  for (const [i, t] of (Array.isArray(value.tasks) ? value.tasks : []).entries()) {
+    const output = isRecord(t) && t.output !== undefined && t.output !== null ? parseTaskOutput(t.output) : null;
+    if (
+      !isRecord(t) ||
+      typeof t.id !== "string" ||
+      typeof t.goal !== "string" ||
+      typeof t.status !== "string" ||
+      (t.output !== undefined && t.output !== null && !output)
+    ) {
+      return { ok: false, error: `tasks[${i}] is invalid` };
+    }
+    tasks.push({
+      id: t.id,
+      goal: t.goal,
+      createdAt: typeof t.createdAt === "number" ? t.createdAt : now,
+      updatedAt: typeof t.updatedAt === "number" ? t.updatedAt : now,
+      status: t.status,
+      output,
+      error: typeof t.error === "string" ? t.error : null,
+    });
+  }
+
+  return { ok: true, data: { version: 1, exportedAt: now, conversations, tasks } };
+}
+
+// One thread per line; the title comes from the first user message, as for new chats
+export function parseJsonlExport(text: string): Parsed {
+  const now = Date.now();
+  const conversations: ExportedConversation[] = [];
+
+  for (const [i, line] of text.split("\n").entries()) {
+    if (!line.trim()) continue;
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      return { ok: false, error: `Line ${i + 1}: invalid JSON` };
+    }
+    const messages = isRecord(record) ? parseMessages(record.messages, now, false) : null;
+    if (!messages) return { ok: false, error: `Line ${i + 1}: expected {"messages":[{role, content}, ...]}` };
+
+    conversations.push({
+      id: crypto.randomUUID(),
+      title: messages.find((m) => m.role === "user")?.content.trim().slice(0, 40) ?? "",
+      createdAt: now,
+      updatedAt: now,
+      messages,
+    });
+  }
+
+  return { ok: true, data: { version: 1, exportedAt: now, conversations, tasks: [] } };
+}
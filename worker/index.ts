@@ -1,195 +1,1012 @@
-import { MemoryDO } from "./memory_do";
+import { MemoryDO, DEFAULT_CONVERSATION_ID, FINISHED_TASK_STATUSES, SOCKET_USER_HEADER } from "./memory_do";
+import type { MemoryStub } from "./memory_do";
+import {
+  authLimiterName,
+  authenticate,
+  hashPassword,
+  isValidPassword,
+  normalizeUsername,
+  sessionCookie,
+  signSession,
+  verifyPassword,
+} from "./auth";
+import {
+  AUTH_ATTEMPT_LIMITS,
+  consumeTokens,
+  embeddingTokens,
+  parseLimits,
+  quotaHeaders,
+  secondsUntilNextUtcDay,
+  tokensUsed,
+} from "./rate_limit";
+import type { AttemptStatus, QuotaStatus } from "./rate_limit";
+import { DEFAULT_MODEL_ID, MODELS, selectModel } from "./models";
+import type {
+  ChatStreamEvent,
+  MessageSearchFilters,
+  ModelParams,
+  StoredMessage,
+} from "../shared/types";
+import { InferenceError, runInference } from "./inference";
+import type { TextResult } from "./inference";
+import { rememberTurn } from "./long_term_memory";
+import { MAX_DOC_CHARS, chunkText, embedChunks } from "./documents";
+import {
+  DEFAULT_PERSONA_ID,
+  MAX_PERSONAS,
+  PERSONA_VARIABLES,
+  TASK_PROMPTS,
+  checkTemplate,
+  isTaskPromptKey,
+} from "./prompts";
+import { EXPORT_FORMATS, MAX_IMPORT_CHARS, exportBody, parseJsonExport, parseJsonlExport } from "./export";
+import type { ExportFormat } from "./export";
+import { logTrace, startTrace, traceError, withRequestId } from "./tracing";
+import type { Trace } from "./tracing";
+import { sseFrame } from "./sse";
+import { RequestError, errorEnvelope, requestErrorResponse } from "./errors";
+import { MAX_ID_CHARS, SCHEMAS, readJson, readText } from "./validation";
+import { buildContext, openStream, relayStream, rollbackUserMessage } from "./chat";
+import type { StreamRequest } from "./chat";
+import { chatStreamName } from "./chat_stream_do";
+import type { BufferedEvent } from "./chat_stream_do";
 
 export interface Env {
   AI: any; // Workers AI binding from wrangler.jsonc: "ai": { "binding": "AI" }
-  MEMORY: DurableObjectNamespace; // DO binding from wrangler.jsonc: durable_objects.bindings[].name = "MEMORY"
+  MEMORY: DurableObjectNamespace<MemoryDO>; // DO binding from wrangler.jsonc: durable_objects.bindings[].name = "MEMORY"
   TASK_WORKFLOW: any; // Workflow binding
+  TASK_PROGRESS: DurableObjectNamespace; // DO binding: live TaskWorkflow progress per instance id
+  CHAT_STREAM: DurableObjectNamespace; // DO binding: replayable chat stream per streamed reply
+  HISTORY_TOKEN_BUDGET?: string; // wrangler.jsonc vars: max tokens of history sent to the model
+  AUTH_SECRET?: string; // secret: `wrangler secret put AUTH_SECRET` (or .dev.vars locally)
+  RATE_LIMIT_PER_MINUTE?: string; // wrangler.jsonc vars: sliding-window request limit per user
+  DAILY_TOKEN_QUOTA?: string; // wrangler.jsonc vars: Workers AI tokens per user per UTC day
 }
 
-export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
-    const url = new URL(request.url);
+// Routes that spend Workers AI budget and are therefore rate limited
+const METERED_ROUTES = [
+  "/api/chat",
+  "/api/chat/stream",
+  "/api/chat/continue",
+  "/api/chat/regenerate",
+  "/api/chat/edit",
+  "/api/task",
+  "/api/task/restart",
+  "/api/docs",
+];
+
+// GET /api/usage window: default and upper bound (stats are kept for 90 days)
+const DEFAULT_USAGE_DAYS = 30;
+const MAX_USAGE_DAYS = 90;
+
+// Routes answered with an SSE stream of ChatStreamEvents
+const STREAM_ROUTES = ["/api/chat/stream", "/api/chat/continue"];
+
+// Routes answered with one JSON reply (see startTurn for how each picks the message to answer)
+const CHAT_ROUTES = ["/api/chat", "/api/chat/regenerate", "/api/chat/edit"];
+
+// Body schema of each chat route (worker/validation.ts)
+const CHAT_SCHEMAS: Record<string, (typeof SCHEMAS)[keyof typeof SCHEMAS]> = {
+  "/api/chat": SCHEMAS.chat,
+  "/api/chat/regenerate": SCHEMAS.regenerate,
+  "/api/chat/edit": SCHEMAS.edit,
+  "/api/chat/stream": SCHEMAS.chat,
+  "/api/chat/continue": SCHEMAS.continue,
+};
+
+// Every /api route and its methods, to tell a wrong method (405) from an unknown path (404)
+const ROUTE_METHODS: Record<string, string[]> = {
+  "/api/auth/signup": ["POST"],
+  "/api/auth/login": ["POST"],
+  "/api/auth/logout": ["POST"],
+  "/api/auth/me": ["GET"],
+  "/api/models": ["GET"],
+  "/api/chat": ["POST"],
+  "/api/chat/stream": ["POST"],
+  "/api/chat/continue": ["POST"],
+  "/api/chat/stop": ["POST"],
+  "/api/chat/resume": ["GET"],
+  "/api/chat/ws": ["GET"],
+  "/api/chat/regenerate": ["POST"],
+  "/api/chat/edit": ["POST"],
+  "/api/clear": ["POST"],
+  "/api/conversations": ["GET", "POST"],
+  "/api/conversations/rename": ["POST"],
+  "/api/conversations/delete": ["POST"],
+  "/api/history": ["GET"],
+  "/api/history/branch": ["POST"],
+  "/api/history/search": ["GET"],
+  "/api/history/export": ["GET"],
+  "/api/history/import": ["POST"],
+  "/api/memories": ["GET"],
+  "/api/memories/delete": ["POST"],
+  "/api/docs": ["GET", "POST"],
+  "/api/docs/delete": ["POST"],
+  "/api/personas": ["GET", "POST"],
+  "/api/personas/select": ["POST"],
+  "/api/personas/delete": ["POST"],
+  "/api/personas/versions": ["GET"],
+  "/api/prompts": ["GET", "POST"],
+  "/api/prompts/versions": ["GET"],
+  "/api/usage": ["GET"],
+  "/api/task": ["GET", "POST"],
+  "/api/tasks": ["GET"],
+  "/api/task/events": ["GET"],
+  "/api/task/terminate": ["POST"],
+  "/api/task/pause": ["POST"],
+  "/api/task/resume": ["POST"],
+  "/api/task/restart": ["POST"],
+};
+
+// No handler took the request: 405 (with Allow) for a known path, else 404
+function unmatched(request: Request, url: URL): Response {
+  const allowed = ROUTE_METHODS[url.pathname];
+  if (!allowed) return new Response(`No such route: ${url.pathname}`, { status: 404 });
+  return new Response(`${request.method} is not allowed here (use ${allowed.join(", ")})`, {
+    status: 405,
+    headers: { Allow: allowed.join(", ") },
+  });
+}
 
-    // Keep the starter behavior: only handle /api/*
-    if (!url.pathname.startsWith("/api/")) {
-      return new Response(null, { status: 404 });
+// The user message a chat request answers, and how to put the thread back if no answer comes
+type Turn = { question: StoredMessage; undo: () => Promise<void> };
+
+type ChatBody = {
+  message?: string; // /api/chat
+  messageId?: number; // /api/chat/edit: the user message being edited...
+  content?: string; // ...and its new text
+  conversationId?: string;
+  taskId?: string; // attach a completed task's output as context
+  model?: string; // one of GET /api/models
+  params?: unknown; // { max_tokens?, temperature?, top_p? }
+};
+
+/**
+ * - /api/chat appends the message to the active branch
+ * - /api/chat/regenerate re-answers the branch's last user message; the new reply becomes a
+ *   sibling of the old one
+ * - /api/chat/edit adds the edited text as a sibling of the original message, starting a branch
+ * The branch the user was on is restored if no model answers.
+ */
+async function startTurn(
+  stub: MemoryStub,
+  route: string,
+  conversationId: string,
+  body: ChatBody
+): Promise<Turn | Response> {
+  if (route === "/api/chat/regenerate") {
+    const started = await stub.beginRegenerate(conversationId);
+    if (!started) return new Response("Nothing to regenerate", { status: 409 });
+    return {
+      question: started.question,
+      undo: () => stub.switchBranch(conversationId, started.previousHead).then(() => {}, () => {}),
+    };
+  }
+
+  if (route === "/api/chat/edit") {
+    const content = body.content?.trim();
+    if (!content || typeof body.messageId !== "number") {
+      return new Response("messageId and content are required", { status: 400 });
     }
+    const started = await stub.beginEdit(conversationId, body.messageId, content);
+    if (!started) return new Response("Message not found", { status: 404 });
+    return {
+      question: started.question,
+      undo: async () => {
+        await rollbackUserMessage(stub, conversationId, content);
+        if (started.previousHead !== null) await stub.switchBranch(conversationId, started.previousHead).catch(() => {});
+      },
+    };
+  }
+
+  const message = body.message ?? "";
+  return {
+    question: await stub.append(conversationId, "user", message),
+    undo: () => rollbackUserMessage(stub, conversationId, message),
+  };
+}
 
-    // Choose which Durable Object instance to use (memory per user)
-    const userId = url.searchParams.get("user") ?? "demo";
-    const doId = env.MEMORY.idFromName(userId);
-    const stub = env.MEMORY.get(doId);
+/**
+ * Search date filter -> epoch ms (undefined when absent, null when invalid). A bare
+ * YYYY-MM-DD is a whole UTC day, so as an upper bound it means the end of that day.
+ */
+function parseDateParam(value: string | null, endOfDay: boolean): number | undefined | null {
+  if (!value) return undefined;
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) return null;
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? ms + 86_400_000 - 1 : ms;
+}
 
-    // POST /api/chat  -> store user msg -> load history -> call LLM -> store reply -> return reply
-    if (request.method === "POST" && url.pathname === "/api/chat") {
-      const { message } = await request.json<{ message: string }>();
+// 502 with every attempt, so clients can tell "all models down" from a bad request
+function inferenceFailed(e: InferenceError, quota: QuotaStatus, trace: Trace) {
+  traceError(trace, e);
+  return Response.json(
+    {
+      error: {
+        code: "model_unavailable",
+        message: "The model is unavailable, please try again",
+        attempts: e.attempts,
+      },
+    },
+    { status: 502, headers: quotaHeaders(quota) }
+  );
+}
 
-      await stub.fetch("https://memory/append", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ role: "user", content: message }),
-      });
+// 404 unless the task (attached to a turn, or addressed by a task route) belongs to this user
+async function checkTask(stub: MemoryStub, taskId: string | undefined) {
+  if (!taskId) return null;
+  return (await stub.getTask(taskId)) ? null : new Response("Task not found", { status: 404 });
+}
 
-      const memRes = await stub.fetch("https://memory/get", { method: "GET" });
-      const { history } = await memRes.json<{ history: any[] }>();
+function tooManyAttempts(status: AttemptStatus) {
+  return Response.json(
+    { error: { code: "rate_limited", message: "Too many sign-in attempts", retryAfter: status.retryAfter } },
+    { status: 429, headers: { "Retry-After": String(status.retryAfter) } }
+  );
+}
 
-      const system = {
-        role: "system",
-        content:
-          "You are a helpful assistant. Use chat history for context. Be concise unless asked otherwise.",
-      };
+// /api/auth/* -> signup, login, logout, me (the only routes reachable without a session)
+async function handleAuth(request: Request, env: Env, url: URL): Promise<Response> {
+  if (!env.AUTH_SECRET) {
+    return new Response("AUTH_SECRET is not configured", { status: 500 });
+  }
+
+  // GET /api/auth/me -> { user } for the current session
+  if (request.method === "GET" && url.pathname === "/api/auth/me") {
+    const user = await authenticate(request, env.AUTH_SECRET);
+    if (!user) return new Response("Unauthorized", { status: 401 });
+    return Response.json({ user });
+  }
+
+  // POST /api/auth/logout -> expire the session cookie
+  if (request.method === "POST" && url.pathname === "/api/auth/logout") {
+    return Response.json({ ok: true }, { headers: { "Set-Cookie": sessionCookie("", 0) } });
+  }
+
+  // POST /api/auth/signup | /api/auth/login -> { username, password } -> session cookie
+  if (
+    request.method === "POST" &&
+    (url.pathname === "/api/auth/signup" || url.pathname === "/api/auth/login")
+  ) {
+    const body = await readJson<{ username?: unknown; password?: unknown }>(request);
+    const username = normalizeUsername(body.username);
+    if (!username || !isValidPassword(body.password)) {
+      return new Response(
+        "Username must be 3-32 chars [a-z0-9_.-]; password at least 8 chars",
+        { status: 400 }
+      );
+    }
 
-      const result = await env.AI.run(
-        "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
-        {
-          messages: [system, ...history],
-          max_tokens: 300,
-          temperature: 0.4,
+    const stub = env.MEMORY.get(env.MEMORY.idFromName(username));
+
+    // Limited before hashing: each attempt costs a 100k-iteration PBKDF2
+    const ip = request.headers.get("CF-Connecting-IP") ?? "unknown";
+    const byIp = env.MEMORY.get(env.MEMORY.idFromName(authLimiterName(ip)));
+    const ipStatus = await byIp.checkAuthAttempts(AUTH_ATTEMPT_LIMITS.perIp);
+    if (!ipStatus.allowed) return tooManyAttempts(ipStatus);
+    const userStatus = await stub.checkAuthAttempts(AUTH_ATTEMPT_LIMITS.perUsername);
+    if (!userStatus.allowed) return tooManyAttempts(userStatus);
+
+    if (url.pathname === "/api/auth/signup") {
+      const registered = await stub.register(await hashPassword(body.password));
+      if (!registered) return new Response("Username is taken", { status: 409 });
+    } else {
+      const credentials = await stub.getCredentials();
+      const ok = credentials !== null && (await verifyPassword(body.password, credentials));
+      if (!ok) return new Response("Invalid username or password", { status: 401 });
+    }
+
+    const token = await signSession(username, env.AUTH_SECRET);
+    return Response.json(
+      { user: username },
+      { headers: { "Set-Cookie": sessionCookie(token) } }
+    );
+  }
+
+  return unmatched(request, url);
+}
+
+// Logs a finished request and adds metered ones to the user's usage stats (best-effort)
+function finishRequest(env: Env, ctx: ExecutionContext, trace: Trace, status: number) {
+  const latencyMs = logTrace(trace, status);
+  if (!trace.user || !METERED_ROUTES.includes(trace.route) || trace.method !== "POST") return;
+
+  const stub = env.MEMORY.get(env.MEMORY.idFromName(trace.user));
+  ctx.waitUntil(
+    stub
+      .recordUsage({
+        route: trace.route,
+        model: trace.model ?? null,
+        tokens: trace.tokens,
+        latencyMs,
+        error: status >= 400,
+      })
+      .catch(() => {})
+  );
+}
+
+async function handleApi(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  url: URL,
+  trace: Trace
+): Promise<Response> {
+  if (url.pathname.startsWith("/api/auth/")) {
+    return handleAuth(request, env, url);
+  }
+
+  if (!env.AUTH_SECRET) {
+    return new Response("AUTH_SECRET is not configured", { status: 500 });
+  }
+
+  // Choose which Durable Object instance to use (memory per authenticated user)
+  const userId = await authenticate(request, env.AUTH_SECRET);
+  if (!userId) return new Response("Unauthorized", { status: 401 });
+  trace.user = userId;
+
+  const doId = env.MEMORY.idFromName(userId);
+  const stub = env.MEMORY.get(doId);
+
+  // Per-user rate limit + daily token quota for routes that call the model (METERED_ROUTES). Each
+  // checks it once its body is valid, so malformed requests don't use up the limit; a 429 if over
+  let quota: QuotaStatus | null = null;
+  const meter = async (): Promise<Response | null> => {
+    const status = await stub.checkQuota(parseLimits(env));
+    quota = status;
+    if (status.allowed) return null;
+    return Response.json(
+      {
+        error:
+          status.remainingTokens === 0
+            ? { code: "quota_exceeded", message: "Daily token quota exceeded", retryAfter: status.retryAfter }
+            : { code: "rate_limited", message: "Too many requests", retryAfter: status.retryAfter },
+      },
+      { status: 429, headers: quotaHeaders(status) }
+    );
+  };
+
+  // POST /api/chat  -> store user msg -> load history -> call LLM -> store reply -> return reply
+  // POST /api/chat/regenerate -> { conversationId } -> a new reply to the branch's last message
+  // POST /api/chat/edit -> { conversationId, messageId, content } -> answer the edit on a new branch
+  if (request.method === "POST" && CHAT_ROUTES.includes(url.pathname)) {
+    const body = await readJson<ChatBody>(request, CHAT_SCHEMAS[url.pathname]);
+    const { conversationId = DEFAULT_CONVERSATION_ID, taskId } = body;
+
+    const selected = selectModel(body);
+    if (!selected.ok) return new Response(selected.error, { status: 400 });
+    const { model, params } = selected;
+
+    const missingTask = await checkTask(stub, taskId);
+    if (missingTask) return missingTask;
+
+    const limited = await meter();
+    if (limited) return limited;
+
+    const turn = await startTurn(stub, url.pathname, conversationId, body);
+    if (turn instanceof Response) return turn;
+    const message = turn.question.content;
+
+    const { messages, citations } = await buildContext(env, stub, {
+      userId,
+      conversationId,
+      query: message,
+      taskId,
+      model,
+      params,
+      trace,
+    });
+
+    let inference;
+    try {
+      inference = await runInference<TextResult>(env.AI, model, { messages, params });
+    } catch (e) {
+      if (!(e instanceof InferenceError)) throw e;
+      await turn.undo();
+      return inferenceFailed(e, quota!, trace);
+    }
+    const { result, model: served } = inference;
+
+    const reply =
+      result?.response ?? result?.output_text ?? JSON.stringify(result);
+    trace.model = served.id;
+
+    // Charged at the rate of the model that answered (a fallback may be cheaper or pricier)
+    const tokens = tokensUsed(result, messages, reply) * served.costWeight;
+    trace.tokens += tokens;
+    await consumeTokens(stub, tokens);
+
+    const stored = await stub.append(conversationId, "assistant", reply, turn.question.id);
+    ctx.waitUntil(rememberTurn(env, stub, { conversationId, question: message, answer: reply }));
+
+    return Response.json(
+      {
+        reply,
+        conversationId,
+        model: served.id,
+        citations,
+        questionId: turn.question.id,
+        replyId: stored.id,
+      },
+      { headers: quotaHeaders(quota!) }
+    );
+  }
+
+  // GET /api/chat/ws -> WebSocket handled by the user's MemoryDO: streamed turns, stop, typing
+  // notices and live updates for every open tab (ChatSocketRequest / ChatSocketEvent in shared/types.ts)
+  if (request.method === "GET" && url.pathname === "/api/chat/ws") {
+    if (request.headers.get("Upgrade") !== "websocket") {
+      return new Response("Expected a WebSocket upgrade", { status: 426 });
+    }
+    // The session cookie is sent on cross-site upgrades too; only this app's pages may open one
+    const origin = request.headers.get("Origin");
+    if (origin !== null && origin !== url.origin) {
+      return new Response("Cross-origin WebSocket upgrades are not allowed", { status: 403 });
+    }
+    const headers = new Headers(request.headers);
+    headers.set(SOCKET_USER_HEADER, userId);
+    return stub.fetch(new Request(request, { headers }));
+  }
+
+  // GET /api/chat/resume?questionId=... -> the stream answering that message (the start event's
+  // questionId): events after Last-Event-ID, then live until done; 404 once it has expired
+  if (request.method === "GET" && url.pathname === "/api/chat/resume") {
+    const questionId = Number(url.searchParams.get("questionId"));
+    if (!Number.isInteger(questionId)) return new Response("questionId is required", { status: 400 });
+
+    const replay = env.CHAT_STREAM.get(env.CHAT_STREAM.idFromName(chatStreamName(userId, questionId)));
+    const headers = new Headers();
+    const lastEventId = request.headers.get("Last-Event-ID");
+    if (lastEventId) headers.set("Last-Event-ID", lastEventId);
+    return replay.fetch("https://stream/events", { method: "GET", headers });
+  }
+
+  // POST /api/chat/stop -> { questionId } -> stop the stream answering that message (the start
+  // event's questionId); the stream still ends with usage and done { truncated: true }
+  if (request.method === "POST" && url.pathname === "/api/chat/stop") {
+    const { questionId } = await readJson<{ questionId: number }>(request, SCHEMAS.stop);
+    await stub.requestStop(questionId);
+    return Response.json({ ok: true });
+  }
+
+  // GET /api/models -> the model allowlist for pickers
+  if (request.method === "GET" && url.pathname === "/api/models") {
+    return Response.json({
+      default: DEFAULT_MODEL_ID,
+      models: MODELS.map(
+        ({ id, label, contextWindow, maxOutputTokens, defaults, streaming, costWeight, fallbacks }) => ({
+          id,
+          label,
+          contextWindow,
+          maxOutputTokens,
+          defaults,
+          streaming,
+          costWeight,
+          fallbacks,
+        })
+      ),
+    });
+  }
+
+  // POST /api/task -> start a workflow instance (and record it in the user's task registry)
+  if (request.method === "POST" && url.pathname === "/api/task") {
+    const body = await readJson<{ goal: string; model?: string; params?: unknown }>(request, SCHEMAS.task);
+    const goal = body.goal.trim();
+
+    const selected = selectModel(body);
+    if (!selected.ok) return new Response(selected.error, { status: 400 });
+
+    const limited = await meter();
+    if (limited) return limited;
+
+    const newId = crypto.randomUUID();
+    const instance = await env.TASK_WORKFLOW.create({
+      id: newId,
+      // Only explicit overrides: workflow steps keep their own token budgets and temperature
+      params: {
+        goal,
+        userId,
+        model: selected.model.id,
+        params: body.params as Partial<ModelParams> | undefined, // validated by selectModel
+      },
+    });
+    const status = await instance.status();
+
+    await stub.addTask(instance.id, goal, status.status);
+
+    return Response.json(
+      { id: instance.id, status },
+      { headers: quotaHeaders(quota!) }
+    );
+  }
+
+  // GET /api/tasks -> the user's task registry (newest first), unfinished ones refreshed
+  if (request.method === "GET" && url.pathname === "/api/tasks") {
+    const tasks = await stub.listTasks();
+
+    const refreshed = await Promise.all(
+      tasks.map(async (task) => {
+        if (FINISHED_TASK_STATUSES.includes(task.status)) return task;
+        try {
+          const status = await (await env.TASK_WORKFLOW.get(task.id)).status();
+          if (status.status === task.status) return task;
+
+          const patch = { status: status.status, output: status.output, error: status.error ?? null };
+          await stub.updateTask(task.id, patch);
+          return { ...task, ...patch };
+        } catch {
+          return task; // instance may have expired; keep the last known state
         }
-      );
+      })
+    );
+
+    return Response.json({ tasks: refreshed });
+  }
+
+  // POST /api/task/{terminate,pause,resume,restart} -> { instanceId } -> Workflow instance controls
+  const control = url.pathname.match(/^\/api\/task\/(terminate|pause|resume|restart)$/)?.[1];
+  if (request.method === "POST" && control) {
+    const { instanceId } = await readJson<{ instanceId: string }>(request, SCHEMAS.taskControl);
+    const missingTask = await checkTask(stub, instanceId);
+    if (missingTask) return missingTask;
+
+    // A restart runs the whole workflow again, so it is metered like starting a task
+    if (control === "restart") {
+      const limited = await meter();
+      if (limited) return limited;
+    }
+
+    const instance = await env.TASK_WORKFLOW.get(instanceId);
+    const progress = env.TASK_PROGRESS.get(env.TASK_PROGRESS.idFromName(instanceId));
 
-      const reply =
-        result?.response ?? result?.output_text ?? JSON.stringify(result);
+    // A restarted instance runs from scratch, so its progress log starts over too
+    if (control === "restart") await progress.fetch("https://progress/reset", { method: "POST" });
 
-      await stub.fetch("https://memory/append", {
+    await instance[control]();
+    const status = await instance.status();
+
+    if (control === "terminate") {
+      // Close any open progress streams
+      await progress.fetch("https://progress/publish", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ role: "assistant", content: reply }),
+        body: JSON.stringify({ id: "terminated", type: "failed", error: "Terminated" }),
       });
-
-      return Response.json({ reply });
     }
 
-    // POST /api/task -> start a workflow instance
-    if (request.method === "POST" && url.pathname === "/api/task") {
-      const { goal } = await request.json<{ goal: string }>();
-      const newId = crypto.randomUUID();
-      const instance = await env.TASK_WORKFLOW.create({
-        id: newId,
-        params: { goal },
-      });
-      return Response.json({ id: instance.id, status: await instance.status() });
+    await stub.updateTask(
+      instanceId,
+      control === "restart"
+        ? { status: status.status, output: null, error: null }
+        : { status: status.status }
+    );
+
+    return Response.json({ id: instanceId, status });
+  }
+
+  // GET /api/task/events?instanceId=... -> SSE stream of workflow progress (replay + live)
+  if (request.method === "GET" && url.pathname === "/api/task/events") {
+    const instanceId = url.searchParams.get("instanceId");
+    if (!instanceId) return new Response("Missing instanceId", { status: 400 });
+    const missingTask = await checkTask(stub, instanceId);
+    if (missingTask) return missingTask;
+
+    const progress = env.TASK_PROGRESS.get(env.TASK_PROGRESS.idFromName(instanceId));
+    const headers = new Headers();
+    const lastEventId = request.headers.get("Last-Event-ID");
+    if (lastEventId) headers.set("Last-Event-ID", lastEventId);
+    return progress.fetch("https://progress/events", { method: "GET", headers });
+  }
+
+  // GET /api/task?instanceId=... -> check status/output
+  if (request.method === "GET" && url.pathname === "/api/task") {
+    const instanceId = url.searchParams.get("instanceId");
+    if (!instanceId) return new Response("Missing instanceId", { status: 400 });
+    const missingTask = await checkTask(stub, instanceId);
+    if (missingTask) return missingTask;
+
+    const instance = await env.TASK_WORKFLOW.get(instanceId);
+    return Response.json({ status: await instance.status() });
+  }
+
+  // GET /api/docs -> the user's uploaded documents
+  if (request.method === "GET" && url.pathname === "/api/docs") {
+    return Response.json({ documents: await stub.listDocuments() });
+  }
+
+  // POST /api/docs -> { name, text } -> chunk, embed and store for retrieval in chat
+  if (request.method === "POST" && url.pathname === "/api/docs") {
+    // Sized for the largest document (UTF-8: up to 4 bytes a character); the text is checked below
+    const { name, text } = await readJson<{ name?: unknown; text?: unknown }>(request, {}, MAX_DOC_CHARS * 4);
+    if (typeof name !== "string" || !name.trim() || typeof text !== "string" || !text.trim()) {
+      return new Response("name and text are required", { status: 400 });
+    }
+    if (text.length > MAX_DOC_CHARS) {
+      return new Response(`Document too large (max ${MAX_DOC_CHARS} characters)`, { status: 413 });
     }
 
-    // GET /api/task?instanceId=... -> check status/output
-    if (request.method === "GET" && url.pathname === "/api/task") {
-      const instanceId = url.searchParams.get("instanceId");
-      if (!instanceId) return new Response("Missing instanceId", { status: 400 });
+    const limited = await meter();
+    if (limited) return limited;
 
-      const instance = await env.TASK_WORKFLOW.get(instanceId);
-      return Response.json({ status: await instance.status() });
+    // Embedding is charged per batch; refuse a document the rest of today's quota can't cover
+    const chunks = chunkText(text);
+    const tokens = embeddingTokens(chunks);
+    if (tokens > quota!.remainingTokens) {
+      const status = { ...quota!, allowed: false, retryAfter: secondsUntilNextUtcDay() };
+      return Response.json(
+        {
+          error: {
+            code: "quota_exceeded",
+            message: `Not enough daily token quota left for this document (needs ~${tokens}, ${status.remainingTokens} left)`,
+            retryAfter: status.retryAfter,
+          },
+        },
+        { status: 429, headers: quotaHeaders(status) }
+      );
     }
 
-    // POST /api/clear -> clears memory
-    if (request.method === "POST" && url.pathname === "/api/clear") {
-      await stub.fetch("https://memory/clear", { method: "POST" });
-      return Response.json({ ok: true });
+    let embeddings: number[][];
+    try {
+      embeddings = await embedChunks(env.AI, stub, chunks);
+    } catch (e) {
+      if (!(e instanceof InferenceError)) throw e;
+      return inferenceFailed(e, quota!, trace);
     }
 
-    // ✅ POST /api/chat/stream  -> SSE streaming tokens + store final reply in memory
-    if (request.method === "POST" && url.pathname === "/api/chat/stream") {
-      const { message } = await request.json<{ message: string }>();
+    const document = await stub.addDocument({
+      name: name.trim().slice(0, 200),
+      chars: text.length,
+      chunks: chunks.map((content, i) => ({ content, embedding: embeddings[i] })),
+    });
+    trace.tokens += tokens;
+    return Response.json({ document }, { headers: quotaHeaders(quota!) });
+  }
+
+  // POST /api/docs/delete -> { id } -> remove a document and its chunks
+  if (request.method === "POST" && url.pathname === "/api/docs/delete") {
+    const { id } = await readJson<{ id: string }>(request, SCHEMAS.id);
+    if (!(await stub.deleteDocument(id))) return new Response("Document not found", { status: 404 });
+    return Response.json({ ok: true });
+  }
+
+  // GET /api/memories -> long-term memories (newest first)
+  if (request.method === "GET" && url.pathname === "/api/memories") {
+    return Response.json({ memories: await stub.listMemories() });
+  }
+
+  // POST /api/memories/delete -> { id } -> forget one memory
+  if (request.method === "POST" && url.pathname === "/api/memories/delete") {
+    const { id } = await readJson<{ id: string }>(request, SCHEMAS.id);
+    if (!(await stub.deleteMemory(id))) return new Response("Memory not found", { status: 404 });
+    return Response.json({ ok: true });
+  }
+
+  // GET /api/usage?days=30 -> the user's requests, tokens and errors by day, model and route
+  if (request.method === "GET" && url.pathname === "/api/usage") {
+    const days = Number(url.searchParams.get("days") ?? DEFAULT_USAGE_DAYS);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_DAYS) {
+      return new Response(`days must be 1-${MAX_USAGE_DAYS}`, { status: 400 });
+    }
+    return Response.json(await stub.usageReport(days, parseLimits(env)));
+  }
+
+  // GET /api/personas -> { personas, selected }
+  if (request.method === "GET" && url.pathname === "/api/personas") {
+    return Response.json(await stub.listPersonas());
+  }
+
+  // POST /api/personas -> { id?, name?, prompt } -> create a persona, or save a new version of one
+  if (request.method === "POST" && url.pathname === "/api/personas") {
+    const { id, name, prompt } = await readJson<{ id?: string; name?: string; prompt: string }>(
+      request,
+      SCHEMAS.persona
+    );
+
+    const invalid = checkTemplate(prompt, PERSONA_VARIABLES);
+    if (invalid) return new Response(invalid, { status: 400 });
+    if (id === undefined) {
+      if (!name?.trim()) return new Response("name is required", { status: 400 });
+      // The built-in persona is not counted
+      if ((await stub.listPersonas()).personas.length > MAX_PERSONAS) {
+        return new Response(`Too many personas (max ${MAX_PERSONAS})`, { status: 400 });
+      }
+    }
 
-      // Save user message first
-      await stub.fetch("https://memory/append", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ role: "user", content: message }),
-      });
+    const persona = await stub.savePersona({ id, name, prompt });
+    if (!persona) return new Response("Persona not found", { status: 404 });
+    return Response.json(persona);
+  }
+
+  // POST /api/personas/select -> { id } -> use this persona for chat from now on
+  if (request.method === "POST" && url.pathname === "/api/personas/select") {
+    const { id } = await readJson<{ id: string }>(request, SCHEMAS.id);
+    if (!(await stub.selectPersona(id))) return new Response("Persona not found", { status: 404 });
+    return Response.json({ ok: true });
+  }
+
+  // POST /api/personas/delete -> { id } -> remove a persona and its versions
+  if (request.method === "POST" && url.pathname === "/api/personas/delete") {
+    const { id } = await readJson<{ id: string }>(request, SCHEMAS.id);
+    if (id === DEFAULT_PERSONA_ID) return new Response("The built-in persona can't be deleted", { status: 400 });
+    if (!(await stub.deletePersona(id))) return new Response("Persona not found", { status: 404 });
+    return Response.json({ ok: true });
+  }
+
+  // GET /api/personas/versions?id=... -> { versions } (newest first)
+  if (request.method === "GET" && url.pathname === "/api/personas/versions") {
+    const versions = await stub.personaVersions(url.searchParams.get("id") ?? "");
+    if (!versions) return new Response("Persona not found", { status: 404 });
+    return Response.json({ versions });
+  }
+
+  // GET /api/prompts -> { prompts } (the task workflow's prompt templates)
+  if (request.method === "GET" && url.pathname === "/api/prompts") {
+    return Response.json({ prompts: await stub.listTaskPrompts() });
+  }
+
+  // POST /api/prompts -> { key, text } -> save a new version of a task prompt
+  if (request.method === "POST" && url.pathname === "/api/prompts") {
+    const { key, text } = await readJson<{ key: string; text: string }>(request, SCHEMAS.prompt);
+    if (!isTaskPromptKey(key)) return new Response("Prompt not found", { status: 404 });
+
+    const invalid = checkTemplate(text, TASK_PROMPTS[key].variables, TASK_PROMPTS[key].required);
+    if (invalid) return new Response(invalid, { status: 400 });
+    return Response.json(await stub.saveTaskPrompt(key, text));
+  }
+
+  // GET /api/prompts/versions?key=... -> { versions } (newest first)
+  if (request.method === "GET" && url.pathname === "/api/prompts/versions") {
+    const key = url.searchParams.get("key");
+    if (!isTaskPromptKey(key)) return new Response("Prompt not found", { status: 404 });
+    return Response.json({ versions: await stub.promptVersions(key) });
+  }
+
+  // POST /api/clear?conversationId=... -> clears one thread (or all memory when omitted)
+  if (request.method === "POST" && url.pathname === "/api/clear") {
+    const conversationId = url.searchParams.get("conversationId");
+    // An empty id would mean "all memory": only leaving the parameter out does that
+    if (conversationId !== null && (!conversationId.trim() || conversationId.length > MAX_ID_CHARS)) {
+      return new Response(`conversationId must be 1-${MAX_ID_CHARS} characters`, { status: 400 });
+    }
+    await stub.clear(conversationId ?? undefined);
+    return Response.json({ ok: true });
+  }
+
+  // GET /api/history/search?q=...&role=&from=&to=&conversationId=&limit= -> { hits } across all threads
+  if (request.method === "GET" && url.pathname === "/api/history/search") {
+    const q = url.searchParams.get("q")?.trim();
+    if (!q) return new Response("q is required", { status: 400 });
+
+    const role = url.searchParams.get("role") || undefined;
+    if (role && role !== "user" && role !== "assistant") {
+      return new Response("role must be user or assistant", { status: 400 });
+    }
+    const from = parseDateParam(url.searchParams.get("from"), false);
+    const to = parseDateParam(url.searchParams.get("to"), true);
+    if (from === null || to === null) {
+      return new Response("from / to must be dates (YYYY-MM-DD or ISO 8601)", { status: 400 });
+    }
 
-      // Load history for context
-      const memRes = await stub.fetch("https://memory/get", { method: "GET" });
-      const { history } = await memRes.json<{ history: any[] }>();
+    const hits = await stub.searchMessages(q, {
+      role: role as MessageSearchFilters["role"],
+      from,
+      to,
+      conversationId: url.searchParams.get("conversationId") || undefined,
+      limit: Number(url.searchParams.get("limit")) || undefined,
+    });
+    return Response.json({ hits });
+  }
+
+  // GET /api/history/export?format=json|markdown|jsonl[&conversationId=] -> file download
+  if (request.method === "GET" && url.pathname === "/api/history/export") {
+    const format = (url.searchParams.get("format") ?? "json") as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return new Response(`format must be one of ${EXPORT_FORMATS.join(", ")}`, { status: 400 });
+    }
 
-      const system = {
-        role: "system",
-        content:
-          "You are a helpful assistant. Use chat history for context. Be concise unless asked otherwise.",
+    const data = await stub.exportData(url.searchParams.get("conversationId") || undefined);
+    const { body, contentType } = exportBody(data, format);
+    const extension = format === "markdown" ? "md" : format;
+    const filename = `chat-export-${new Date(data.exportedAt).toISOString().slice(0, 10)}.${extension}`;
+    return new Response(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  }
+
+  // POST /api/history/import?format=json|jsonl -> export file as the body -> { imported }
+  if (request.method === "POST" && url.pathname === "/api/history/import") {
+    const format = url.searchParams.get("format") ?? "json";
+    if (format !== "json" && format !== "jsonl") {
+      return new Response("format must be json or jsonl", { status: 400 });
+    }
+    // Sized like the documents route: up to 4 bytes a character, then the text is checked
+    const text = await readText(request, MAX_IMPORT_CHARS * 4);
+    if (text.length > MAX_IMPORT_CHARS) {
+      return new Response(`Import too large (max ${MAX_IMPORT_CHARS} characters)`, { status: 413 });
+    }
+
+    const parsed = format === "json" ? parseJsonExport(text) : parseJsonlExport(text);
+    if (!parsed.ok) return new Response(parsed.error, { status: 400 });
+    return Response.json({ imported: await stub.importData(parsed.data) });
+  }
+
+  // POST /api/history/branch -> { conversationId, messageId } -> show the branch through that message
+  if (request.method === "POST" && url.pathname === "/api/history/branch") {
+    const { conversationId, messageId } = await readJson<{ conversationId: string; messageId: number }>(
+      request,
+      SCHEMAS.branch
+    );
+    if (!(await stub.switchBranch(conversationId, messageId))) {
+      return new Response("Message not found", { status: 404 });
+    }
+    return Response.json({ ok: true });
+  }
+
+  // GET /api/history?conversationId=...&limit=50&before=<id> -> one page of a thread (newest first page)
+  if (request.method === "GET" && url.pathname === "/api/history") {
+    const page = await stub.getHistory(url.searchParams.get("conversationId") ?? DEFAULT_CONVERSATION_ID, {
+      limit: Number(url.searchParams.get("limit") ?? 50),
+      before: Number(url.searchParams.get("before")) || undefined,
+    });
+    return Response.json(page);
+  }
+
+  // GET /api/conversations -> list threads (most recent first)
+  if (request.method === "GET" && url.pathname === "/api/conversations") {
+    return Response.json({ conversations: await stub.listConversations() });
+  }
+
+  // POST /api/conversations -> create thread { title? }
+  if (request.method === "POST" && url.pathname === "/api/conversations") {
+    const { title } = await readJson<{ title?: string }>(request, SCHEMAS.newConversation);
+    return Response.json({ conversation: await stub.createConversation(title) });
+  }
+
+  // POST /api/conversations/rename -> { conversationId, title }
+  if (request.method === "POST" && url.pathname === "/api/conversations/rename") {
+    const { conversationId, title } = await readJson<{ conversationId: string; title: string }>(request, SCHEMAS.rename);
+    const conversation = await stub.renameConversation(conversationId, title);
+    if (!conversation) return new Response("Conversation not found", { status: 404 });
+    return Response.json({ conversation });
+  }
+
+  // POST /api/conversations/delete -> { conversationId }
+  if (request.method === "POST" && url.pathname === "/api/conversations/delete") {
+    const { conversationId } = await readJson<{ conversationId: string }>(request, SCHEMAS.conversation);
+    await stub.deleteConversation(conversationId);
+    return Response.json({ ok: true });
+  }
+
+  // ✅ POST /api/chat/stream  -> SSE streaming tokens + store final reply in memory
+  // POST /api/chat/continue -> { conversationId, messageId } -> stream the rest of a reply that was cut short
+  if (request.method === "POST" && STREAM_ROUTES.includes(url.pathname)) {
+    const body = await readJson<StreamRequest>(request, CHAT_SCHEMAS[url.pathname]);
+
+    const limited = await meter();
+    if (limited) return limited;
+
+    let opened;
+    try {
+      opened = await openStream(env, stub, {
+        userId,
+        body,
+        continuing: url.pathname === "/api/chat/continue",
+        trace,
+      });
+    } catch (e) {
+      if (!(e instanceof InferenceError)) throw e;
+      return inferenceFailed(e, quota!, trace);
+    }
+    if (!opened.ok) return new Response(opened.error, { status: opened.status });
+    const { stream } = opened;
+    // Logged when the stream ends (see the end of pump() below)
+    trace.deferred = true;
+
+    // Every event is also published to the reply's ChatStreamDO, so a client that drops can resume
+    const replay = env.CHAT_STREAM.get(env.CHAT_STREAM.idFromName(chatStreamName(userId, stream.question.id)));
+
+    const pump = async (controller: ReadableStreamDefaultController<Uint8Array>) => {
+      // Publishes run one at a time, in order; events sent while one is in flight go in the next batch
+      let seq = 0;
+      let pending: BufferedEvent[] = [];
+      let published = Promise.resolve();
+      const publish = async () => {
+        const batch = pending;
+        pending = [];
+        await replay
+          .fetch("https://stream/publish", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(batch),
+          })
+          .catch(() => {}); // best-effort: only resuming depends on it
       };
 
-      // Ask Workers AI for a streaming SSE response
-      const aiStream = (await env.AI.run(
-        "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
-        {
-          messages: [system, ...history],
-          stream: true,
-          max_tokens: 400,
-          temperature: 0.4,
+      // After the client disconnects there is no one to send to, but the reply is still stored
+      const send = (event: ChatStreamEvent) => {
+        seq++;
+        pending.push({ seq, event });
+        if (pending.length === 1) published = published.then(publish);
+        try {
+          controller.enqueue(sseFrame(event, seq));
+        } catch {
+          // stream cancelled
         }
-      )) as ReadableStream;
-
-      // We want to BOTH: (a) forward SSE to client, (b) capture final text to store in memory.
-      const decoder = new TextDecoder();
-
-      let full = "";
-      let buffer = "";
-
-      const out = new ReadableStream({
-        async start(controller) {
-          const reader = aiStream.getReader();
-          try {
-            while (true) {
-              const { value, done } = await reader.read();
-              if (done) break;
-
-              // Forward bytes to client unchanged
-              controller.enqueue(value);
-
-              // Also try to parse SSE chunks to reconstruct final text for memory
-              const chunkText = decoder.decode(value, { stream: true });
-              buffer += chunkText;
-
-              // SSE frames often separated by \n\n
-              let idx;
-              while ((idx = buffer.indexOf("\n\n")) !== -1) {
-                const frame = buffer.slice(0, idx);
-                buffer = buffer.slice(idx + 2);
-
-                // Parse lines like: data: {...}
-                for (const line of frame.split("\n")) {
-                  const trimmed = line.trim();
-                  if (!trimmed.startsWith("data:")) continue;
-                  const payload = trimmed.slice(5).trim();
-                  if (!payload || payload === "[DONE]") continue;
-
-                  try {
-                    const obj = JSON.parse(payload);
-                    // Workers AI SSE commonly includes "response" chunks
-                    if (typeof obj.response === "string") full += obj.response;
-                  } catch {
-                    // ignore non-JSON data lines
-                  }
-                }
-              }
-            }
-          } finally {
-            // Store assistant reply (best-effort)
-            if (full.trim().length > 0) {
-              await stub.fetch("https://memory/append", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ role: "assistant", content: full }),
-              });
-            }
-            controller.close();
-          }
-        },
-      });
+      };
 
-      return new Response(out, {
-        headers: {
-          "content-type": "text/event-stream",
-          "cache-control": "no-cache",
-          "connection": "keep-alive",
-        },
-      });
+      await relayStream(env, stub, stream, send, { trace, waitUntil: (p) => ctx.waitUntil(p) });
+      try {
+        controller.close();
+      } catch {
+        // stream cancelled
+      }
+      await published;
+      finishRequest(env, ctx, trace, 200);
+    };
+
+    const out = new ReadableStream<Uint8Array>({
+      start(controller) {
+        // Not awaited by the response: the reply is stored even if the client leaves mid-stream
+        ctx.waitUntil(pump(controller));
+      },
+      // The client disconnected: keep going, it can pick the stream up again from the ChatStreamDO
+      // (GET /api/chat/resume); only POST /api/chat/stop ends the reply early
+      cancel() {},
+    });
+
+    return new Response(out, {
+      headers: {
+        "content-type": "text/event-stream",
+        "cache-control": "no-cache",
+        "connection": "keep-alive",
+        "X-Model": stream.served.id,
+        ...quotaHeaders(quota!),
+      },
+    });
+  }
+
+  return unmatched(request, url);
+}
+
+export default {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    const url = new URL(request.url);
+
+    // Keep the starter behavior: only handle /api/*
+    if (!url.pathname.startsWith("/api/")) {
+      return new Response(null, { status: 404 });
+    }
+
+    const trace = startTrace(request, url);
+    let response: Response;
+    try {
+      response = await handleApi(request, env, ctx, url, trace);
+    } catch (e) {
+      if (e instanceof RequestError) {
+        response = requestErrorResponse(e);
+      } else {
+        // The details stay in the log
+        traceError(trace, e);
+        response = new Response("Internal error", { status: 500 });
+      }
     }
 
-    // keep starter default for other /api/* paths
-    return Response.json({ name: "Cloudflare" });
+    // Every error goes out as { error: { code, message, requestId } }; keep its message in the log
+    if (response.status >= 400) {
+      const envelope = await errorEnvelope(response, trace.requestId);
+      response = envelope.response;
+      if (!trace.error) traceError(trace, envelope.message);
+    }
+    if (!trace.deferred) finishRequest(env, ctx, trace, response.status);
+    return withRequestId(response, trace);
   },
 } satisfies ExportedHandler<Env>;
 
 // This export is required so Wrangler can register the DO class
 export { MemoryDO };
+export { TaskProgressDO } from "./task_progress_do";
+export { ChatStreamDO } from "./chat_stream_do";
 export { TaskWorkflow } from "./task_workflow";
\ No newline at end of file
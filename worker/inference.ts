@@ -0,0 +1,140 @@
+import type { Env } from "./index";
+import type { ChatMessage } from "./context_window";
+import { modelChain } from "./models";
+import type { ModelInfo, ModelParams } from "../shared/types";
+
+export type RetryPolicy = {
+  timeoutMs: number; // per attempt; for streams, until the stream is handed back
+  retries: number; // extra attempts on the same model for transient errors
+  baseDelayMs: number; // backoff: baseDelayMs * 2^attempt, plus jitter
+  maxDelayMs: number;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  timeoutMs: 30_000,
+  retries: 2,
+  baseDelayMs: 250,
+  maxDelayMs: 4_000,
+};
+
+// Non-streaming text generation result (fields vary a little between models)
+export type TextResult = { response?: string; output_text?: string; usage?: { total_tokens?: number } };
+
+export type InferenceAttempt = { model: string; error: string };
+
+export type InferenceRequest = {
+  messages: ChatMessage[];
+  params: Partial<ModelParams>;
+  stream?: boolean;
+};
+
+// Every model in the chain failed; `attempts` lists each error in order
+export class InferenceError extends Error {
+  readonly attempts: InferenceAttempt[];
+
+  constructor(attempts: InferenceAttempt[]) {
+    super(`All models failed: ${attempts.map((a) => `${a.model}: ${a.error}`).join("; ")}`);
+    this.name = "InferenceError";
+    this.attempts = attempts;
+  }
+}
+
+// Capacity, rate limit, timeout and 5xx-style failures are worth retrying on the same model
+const TRANSIENT_ERROR = /timed? ?out|capacity|overloaded|unavailable|too many requests|rate limit|upstream|internal server error|network|connection|\b(408|429|5\d\d)\b/i;
+
+export function isTransient(error: unknown): boolean {
+  return TRANSIENT_ERROR.test((error as Error)?.message ?? String(error));
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function backoff(attempt: number, policy: RetryPolicy): Promise<void> {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return new Promise((resolve) => setTimeout(resolve, delay + Math.random() * delay * 0.2));
+}
+
+// Calls `run` until it succeeds, a non-transient error occurs or the retries run out.
+// Errors are appended to `attempts`; returns undefined when every attempt failed.
+async function attemptWithRetry<T>(
+  modelId: string,
+  run: () => Promise<T>,
+  p: RetryPolicy,
+  attempts: InferenceAttempt[]
+): Promise<{ value: T } | undefined> {
+  for (let attempt = 0; attempt <= p.retries; attempt++) {
+    try {
+      return { value: await withTimeout(run(), p.timeoutMs) };
+    } catch (e) {
+      attempts.push({ model: modelId, error: (e as Error)?.message ?? String(e) });
+      if (!isTransient(e)) return undefined; // e.g. invalid input for this model
+      if (attempt < p.retries) await backoff(attempt, p);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Runs one Workers AI call with a timeout per attempt, exponential retry on transient errors
+ * and the model's fallback chain (`ModelInfo.fallbacks`) after that. `model` in the result is
+ * the one that answered, so callers charge its cost weight. Throws `InferenceError` when the
+ * whole chain fails.
+ */
+export async function runInference<T = unknown>(
+  ai: Env["AI"],
+  model: ModelInfo,
+  request: InferenceRequest,
+  policy: Partial<RetryPolicy> = {}
+): Promise<{ result: T; model: ModelInfo; attempts: InferenceAttempt[] }> {
+  const p = { ...DEFAULT_RETRY_POLICY, ...policy };
+  const attempts: InferenceAttempt[] = [];
+
+  for (const candidate of modelChain(model, { streaming: request.stream })) {
+    // Overrides were validated for the requested model; keep max_tokens within the fallback's limit
+    const params = { ...request.params };
+    if (params.max_tokens !== undefined) {
+      params.max_tokens = Math.min(params.max_tokens, candidate.maxOutputTokens);
+    }
+
+    const ok = await attemptWithRetry<T>(
+      candidate.id,
+      () =>
+        ai.run(candidate.id, {
+          messages: request.messages,
+          ...params,
+          ...(request.stream ? { stream: true } : {}),
+        }),
+      p,
+      attempts
+    );
+    if (ok) return { result: ok.value, model: candidate, attempts };
+  }
+
+  throw new InferenceError(attempts);
+}
+
+// Same retry policy for embedding calls; there is no fallback since vectors from different
+// models are not comparable
+export async function runEmbedding(
+  ai: Env["AI"],
+  model: string,
+  texts: string[],
+  policy: Partial<RetryPolicy> = {}
+): Promise<number[][]> {
+  const attempts: InferenceAttempt[] = [];
+  const ok = await attemptWithRetry<{ data?: number[][] }>(
+    model,
+    () => ai.run(model, { text: texts }),
+    { ...DEFAULT_RETRY_POLICY, ...policy },
+    attempts
+  );
+  if (!ok || !Array.isArray(ok.value?.data)) {
+    throw new InferenceError(ok ? [{ model, error: "No embeddings returned" }] : attempts);
+  }
+  return ok.value.data;
+}
@@ -0,0 +1,89 @@
+import type { Env } from "./index";
+import type { ChatMessage } from "./context_window";
+import { runEmbedding } from "./inference";
+import type { MemoryStub } from "./memory_do";
+import { consumeTokens, embeddingTokens } from "./rate_limit";
+import type { MemoryHit } from "../shared/types";
+
+// Long-term memory: every chat turn is embedded and kept in MemoryDO's SQLite table, and the
+// turns most similar to a new message are recalled into the prompt, whatever their age.
+
+export const EMBEDDING_MODEL = "@cf/baai/bge-base-en-v1.5";
+
+// How many memories are recalled per message, and how similar they must be
+export const MEMORY_TOP_K = 4;
+export const MIN_MEMORY_SCORE = 0.65;
+
+// Each recalled turn is clipped so a few long answers can't take over the prompt
+const MAX_MEMORY_CHARS = 600;
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+// Charged to the user's daily tokens like every other model call
+export async function embed(ai: Env["AI"], stub: MemoryStub, text: string): Promise<number[]> {
+  const [vector] = await runEmbedding(ai, EMBEDDING_MODEL, [text]);
+  await consumeTokens(stub, embeddingTokens([text]));
+  return vector;
+}
+
+// Embeds one question/answer pair and stores it (best-effort; never fails the chat request)
+export async function rememberTurn(
+  env: Env,
+  stub: MemoryStub,
+  turn: { conversationId: string; question: string; answer: string }
+) {
+  try {
+    const embedding = await embed(env.AI, stub, `User: ${turn.question}\nAssistant: ${turn.answer}`);
+    await stub.addMemory({ ...turn, embedding });
+  } catch {
+    // the turn is still in history; it just won't be recalled later
+  }
+}
+
+/**
+ * Top-k stored turns most similar to `query`. Turns whose question is still among the
+ * `visible` messages (not yet folded into the summary) are skipped, since the model already
+ * sees them. Best-effort: returns [] if embedding fails.
+ */
+export async function recallMemories(
+  env: Env,
+  stub: MemoryStub,
+  query: string,
+  visible: ChatMessage[]
+): Promise<MemoryHit[]> {
+  try {
+    const embedding = await embed(env.AI, stub, query);
+    // Ask for extra hits so dropping the visible ones still leaves k
+    const hits = await stub.searchMemories(embedding, MEMORY_TOP_K + visible.length, MIN_MEMORY_SCORE);
+
+    const seen = new Set(visible.filter((m) => m.role === "user").map((m) => m.content));
+    return hits.filter((h) => !seen.has(h.question)).slice(0, MEMORY_TOP_K);
+  } catch {
+    return [];
+  }
+}
+
+export function memoryContext(hits: MemoryHit[]): ChatMessage[] {
+  if (hits.length === 0) return [];
+  const lines = hits.map((h) => {
+    const date = new Date(h.createdAt).toISOString().slice(0, 10);
+    return `- (${date}) User: ${h.question}\n  Assistant: ${h.answer}`.slice(0, MAX_MEMORY_CHARS);
+  });
+  return [
+    {
+      role: "system",
+      content: `Relevant memories from earlier conversations (use them only if they help):\n${lines.join("\n")}`,
+    },
+  ];
+}
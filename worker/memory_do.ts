@@ -1,34 +1,1279 @@
-export class MemoryDO {
-  private state: DurableObjectState;
+import { DurableObject } from "cloudflare:workers";
+import type { Env } from "./index";
+import type { Credentials } from "./auth";
+import { evaluateAttempts, evaluateQuota, parseLimits, usageKey } from "./rate_limit";
+import type { AttemptStatus, QuotaLimits, QuotaStatus } from "./rate_limit";
+import { cosineSimilarity } from "./long_term_memory";
+import { estimateTokens } from "./context_window";
+import { migrate } from "./memory_schema";
+import { activeBranch, parentIndex } from "./export";
+import { openStream, relayStream } from "./chat";
+import { InferenceError } from "./inference";
+import { SCHEMAS, checkFields } from "./validation";
+import { logTrace, traceError } from "./tracing";
+import type { Trace } from "./tracing";
+import {
+  DEFAULT_PERSONA_ID,
+  DEFAULT_PERSONA_NAME,
+  DEFAULT_PERSONA_PROMPT,
+  TASK_PROMPTS,
+  personaKey,
+} from "./prompts";
+import type { TaskPromptKey } from "./prompts";
+import type {
+  ChatExport,
+  ChatSocketEvent,
+  ChatSocketRequest,
+  Conversation,
+  DocumentHit,
+  DocumentInfo,
+  ExportedConversation,
+  HistoryPage,
+  ImportResult,
+  Memory,
+  MemoryHit,
+  MessageHit,
+  MessageSearchFilters,
+  Persona,
+  PersonaList,
+  PromptTemplate,
+  PromptVersion,
+  Role,
+  StoredMessage,
+  Summary,
+  TaskRecord,
+  UsageEntry,
+  UsageReport,
+} from "../shared/types";
 
-  constructor(state: DurableObjectState) {
-    this.state = state;
+export const DEFAULT_CONVERSATION_ID = "default";
+const UNTITLED = "New chat";
+
+// What the Worker, workflow and tools hold: `env.MEMORY.get(env.MEMORY.idFromName(userId))`
+export type MemoryStub = DurableObjectStub<MemoryDO>;
+
+// Task statuses that will not change any more
+export const FINISHED_TASK_STATUSES = ["complete", "errored", "terminated"];
+
+// The Worker passes the authenticated user along with a WebSocket upgrade in this header
+export const SOCKET_USER_HEADER = "X-Socket-User";
+// Socket turns are logged and metered under this route
+const SOCKET_ROUTE = "/api/chat/ws";
+type SocketAttachment = { userId: string };
+
+// History pages (getHistory with `limit`): used when `limit` is not a positive number, and the upper bound
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+// Search hits per request: default and upper bound
+const DEFAULT_SEARCH_HITS = 20;
+const MAX_SEARCH_HITS = 50;
+const MAX_TASKS = 100;
+// Long-term memories beyond this are evicted oldest first (search is a full scan)
+const MAX_MEMORIES = 2000;
+// Usage stats older than this are dropped
+const USAGE_RETENTION_DAYS = 90;
+
+type MessageRow = {
+  id: number;
+  parent_id: number | null;
+  role: Role;
+  content: string;
+  tokens: number;
+  created_at: number;
+  truncated: number; // 0 | 1
+  alternatives?: string; // see ALTERNATIVES
+};
+
+type SearchRow = Pick<MessageRow, "id" | "role" | "created_at"> & {
+  conversation_id: string;
+  title: string | null; // null if the conversation entry is gone
+  snippet: string;
+};
+
+type ConversationRow = { id: string; title: string; created_at: number; updated_at: number };
+
+type PersonaRow = { id: string; name: string; updated_at: number };
+
+type PromptVersionRow = { version: number; text: string; created_at: number };
+
+// usage_stats summed over one grouping column (`key`)
+type UsageRow = { key: string; requests: number; errors: number; tokens: number; latency_ms: number };
+
+type MemoryRow = { id: string; conversation_id: string; question: string; answer: string; created_at: number };
+
+// User input -> FTS5 query: each word quoted (so quotes and operators are taken literally) and
+// matched as a prefix; the words are ANDed
+function ftsQuery(text: string): string {
+  return text
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => `"${word.replace(/"/g, '""')}"*`)
+    .join(" ");
+}
+
+// Ids on a conversation's active branch, from its head message back to the root (binds the conversation id)
+const ACTIVE_PATH = `WITH RECURSIVE path (id) AS (
+    SELECT head_id FROM conversations WHERE id = ?
+    UNION ALL
+    SELECT m.parent_id FROM messages m JOIN path ON m.id = path.id WHERE m.parent_id IS NOT NULL
+  )`;
+
+// Column for a message `m`: comma-separated ids of it and its siblings, oldest first
+const ALTERNATIVES = `(SELECT group_concat(id) FROM (
+    SELECT s.id FROM messages s WHERE s.conversation_id = m.conversation_id AND s.parent_id IS m.parent_id ORDER BY s.id
+  )) AS alternatives`;
+
+function toMessage(r: MessageRow): StoredMessage {
+  const message: StoredMessage = {
+    id: r.id,
+    parentId: r.parent_id,
+    role: r.role,
+    content: r.content,
+    tokens: r.tokens,
+    createdAt: r.created_at,
+  };
+  if (r.truncated) message.truncated = true;
+  if (r.alternatives?.includes(",")) message.alternatives = r.alternatives.split(",").map(Number);
+  return message;
+}
+
+function utcDay(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function toConversation(r: ConversationRow): Conversation {
+  return { id: r.id, title: r.title, createdAt: r.created_at, updatedAt: r.updated_at };
+}
+
+function toMemory(r: MemoryRow): Memory {
+  return {
+    id: r.id,
+    conversationId: r.conversation_id,
+    question: r.question,
+    answer: r.answer,
+    createdAt: r.created_at,
+  };
+}
+
+/**
+ * Per-user state, one instance per username. The Worker calls the public methods over RPC
+ * (`env.MEMORY.get(id).append(...)`). Chat data lives in SQLite (see worker/memory_schema.ts);
+ * the account, task registry and quota counters stay in KV storage.
+ */
+export class MemoryDO extends DurableObject<Env> {
+  // Questions being answered by a running stream, and those of them asked to stop
+  private streamingQuestions = new Set<number>();
+  private stopRequests = new Set<number>();
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    migrate(ctx.storage);
+    // Keepalive pings are answered without waking a hibernated object
+    ctx.setWebSocketAutoResponse(new WebSocketRequestResponsePair("ping", "pong"));
+  }
+
+  private get sql() {
+    return this.ctx.storage.sql;
+  }
+
+  private deleteMemories(conversationId?: string) {
+    if (conversationId) {
+      this.sql.exec("DELETE FROM memories WHERE conversation_id = ?", conversationId);
+    } else {
+      this.sql.exec("DELETE FROM memories");
+    }
+  }
+
+  // The summary attached to the deepest message on the active branch
+  private getSummary(conversationId: string): Summary {
+    const row = this.sql
+      .exec<{ text: string; message_id: number }>(
+        `${ACTIVE_PATH}
+         SELECT s.text, s.message_id FROM message_summaries s JOIN path ON s.message_id = path.id
+         ORDER BY s.message_id DESC LIMIT 1`,
+        conversationId
+      )
+      .toArray()[0];
+    return row ? { text: row.text, coveredThrough: row.message_id } : { text: "", coveredThrough: 0 };
+  }
+
+  private getHead(conversationId: string): number | null {
+    return (
+      this.sql
+        .exec<{ head_id: number | null }>("SELECT head_id FROM conversations WHERE id = ?", conversationId)
+        .toArray()[0]?.head_id ?? null
+    );
+  }
+
+  private setHead(conversationId: string, messageId: number | null) {
+    this.sql.exec("UPDATE conversations SET head_id = ? WHERE id = ?", messageId, conversationId);
+  }
+
+  // The newest message under `messageId` (or in the whole thread): always a leaf, since children have higher ids
+  private latestLeaf(conversationId: string, messageId: number | null): number | null {
+    if (messageId === null) {
+      return this.sql
+        .exec<{ id: number | null }>("SELECT MAX(id) AS id FROM messages WHERE conversation_id = ?", conversationId)
+        .one().id;
+    }
+    return this.sql
+      .exec<{ id: number | null }>(
+        `WITH RECURSIVE subtree (id) AS (
+           SELECT ?
+           UNION ALL
+           SELECT m.id FROM messages m JOIN subtree ON m.parent_id = subtree.id
+         )
+         SELECT MAX(id) AS id FROM subtree`,
+        messageId
+      )
+      .one().id;
+  }
+
+  private getMessage(conversationId: string, messageId: number): MessageRow | null {
+    return (
+      this.sql
+        .exec<MessageRow>(
+          `SELECT id, parent_id, role, content, tokens, created_at, truncated FROM messages
+           WHERE id = ? AND conversation_id = ?`,
+          messageId,
+          conversationId
+        )
+        .toArray()[0] ?? null
+    );
+  }
+
+  // Creates the conversation entry on first use (e.g. the implicit default thread)
+  private touchConversation(conversationId: string, firstMessage?: string) {
+    const now = Date.now();
+    const title = firstMessage?.trim().slice(0, 40) || UNTITLED;
+    this.sql.exec(
+      `INSERT INTO conversations (id, title, created_at, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET
+         updated_at = excluded.updated_at,
+         title = CASE WHEN title = ? THEN excluded.title ELSE title END`,
+      conversationId,
+      title,
+      now,
+      now,
+      UNTITLED
+    );
+  }
+
+  // Removes a thread's messages, summaries and memories (the conversation entry stays)
+  private clearConversation(conversationId: string) {
+    this.ctx.storage.transactionSync(() => {
+      this.sql.exec("DELETE FROM messages WHERE conversation_id = ?", conversationId);
+      this.sql.exec("DELETE FROM message_summaries WHERE conversation_id = ?", conversationId);
+      this.setHead(conversationId, null);
+      this.deleteMemories(conversationId);
+    });
+  }
+
+  // ---------- Chat history ----------
+
+  /**
+   * History reads of the active branch, always oldest first:
+   * - `uncovered` -> every message after the running summary (what the Worker windows)
+   * - `limit` [+ `before`] -> one page, the newest `limit` messages older than id `before`
+   * - neither -> the whole branch
+   */
+  async getHistory(
+    conversationId = DEFAULT_CONVERSATION_ID,
+    opts: { uncovered?: boolean; limit?: number; before?: number } = {}
+  ): Promise<HistoryPage> {
+    const summary = this.getSummary(conversationId);
+    const select = `${ACTIVE_PATH}
+      SELECT m.id, m.parent_id, m.role, m.content, m.tokens, m.created_at, m.truncated, ${ALTERNATIVES}
+      FROM messages m JOIN path ON m.id = path.id`;
+
+    if (opts.uncovered) {
+      const history = this.sql
+        .exec<MessageRow>(`${select} WHERE m.id > ? ORDER BY m.id`, conversationId, summary.coveredThrough)
+        .toArray()
+        .map(toMessage);
+      return { history, summary, hasMore: false };
+    }
+
+    if (opts.limit !== undefined) {
+      const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(opts.limit) || DEFAULT_PAGE_SIZE));
+      // One extra row tells us whether an older page exists
+      const rows = this.sql
+        .exec<MessageRow>(
+          `${select} WHERE m.id < ? ORDER BY m.id DESC LIMIT ?`,
+          conversationId,
+          opts.before || Number.MAX_SAFE_INTEGER,
+          limit + 1
+        )
+        .toArray();
+      const history = rows.slice(0, limit).reverse().map(toMessage);
+      return { history, summary, hasMore: rows.length > limit };
+    }
+
+    const history = this.sql.exec<MessageRow>(`${select} ORDER BY m.id`, conversationId).toArray().map(toMessage);
+    return { history, summary, hasMore: false };
+  }
+
+  /**
+   * Adds a message under `parentId` (by default the head, extending the active branch) and makes
+   * it the head. `truncated` marks a reply that was stopped or failed before the model finished.
+   */
+  async append(
+    conversationId: string,
+    role: Role,
+    content: string,
+    parentId?: number | null,
+    truncated = false
+  ): Promise<StoredMessage> {
+    const now = Date.now();
+    const message = this.ctx.storage.transactionSync(() => {
+      this.touchConversation(conversationId, role === "user" ? content : undefined);
+      const row = this.sql
+        .exec<MessageRow>(
+          `INSERT INTO messages (conversation_id, parent_id, role, content, tokens, created_at, updated_at, truncated)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?) RETURNING id, parent_id, role, content, tokens, created_at, truncated`,
+          conversationId,
+          parentId === undefined ? this.getHead(conversationId) : parentId,
+          role,
+          content,
+          estimateTokens({ role, content }),
+          now,
+          now,
+          truncated ? 1 : 0
+        )
+        .one();
+      this.setHead(conversationId, row.id);
+      return toMessage(row);
+    });
+    this.broadcast({ type: "message", conversationId, message });
+    return message;
+  }
+
+  /**
+   * Undoes an append whose reply never came (all models failed). Only removes the head, and
+   * only if it is still the user message the request appended; the head then moves to the
+   * newest remaining leaf under its parent.
+   */
+  async rollback(conversationId: string, content: string): Promise<boolean> {
+    const head = this.getHead(conversationId);
+    const last = head === null ? null : this.getMessage(conversationId, head);
+    if (!last || last.role !== "user" || last.content !== content) return false;
+    if (this.sql.exec("SELECT 1 FROM messages WHERE parent_id = ? LIMIT 1", last.id).toArray().length > 0) {
+      return false;
+    }
+
+    this.ctx.storage.transactionSync(() => {
+      this.sql.exec("DELETE FROM messages WHERE id = ?", last.id);
+      this.sql.exec("DELETE FROM message_summaries WHERE message_id = ?", last.id);
+      this.setHead(conversationId, this.latestLeaf(conversationId, last.parent_id));
+    });
+    return true;
+  }
+
+  /**
+   * Starts regenerating the active branch's last reply: the head moves back to the user message
+   * it answered, so the new reply becomes a sibling of the old one. Returns that message and the
+   * previous head (to restore if no new reply comes), or null unless the branch ends in an
+   * assistant reply to a user message.
+   */
+  async beginRegenerate(
+    conversationId: string
+  ): Promise<{ question: StoredMessage; previousHead: number } | null> {
+    const head = this.getHead(conversationId);
+    const reply = head === null ? null : this.getMessage(conversationId, head);
+    if (!reply || reply.role !== "assistant" || reply.parent_id === null) return null;
+    const question = this.getMessage(conversationId, reply.parent_id);
+    if (!question || question.role !== "user") return null;
+
+    this.setHead(conversationId, question.id);
+    return { question: toMessage(question), previousHead: reply.id };
+  }
+
+  /**
+   * Starts an edit of user message `messageId`: the new text is added as its sibling and becomes
+   * the head, so the reply starts a new branch and the original stays one arrow away. Returns
+   * the new message and the previous head, or null if there is no such user message.
+   */
+  async beginEdit(
+    conversationId: string,
+    messageId: number,
+    content: string
+  ): Promise<{ question: StoredMessage; previousHead: number | null } | null> {
+    const original = this.getMessage(conversationId, messageId);
+    if (!original || original.role !== "user") return null;
+
+    const previousHead = this.getHead(conversationId);
+    const question = await this.append(conversationId, "user", content, original.parent_id);
+    return { question, previousHead };
+  }
+
+  /**
+   * Makes the branch through `messageId` the active one; its most recently extended leaf becomes
+   * the head. Already on the active branch, nothing changes. false if the message is not in this
+   * conversation.
+   */
+  async switchBranch(conversationId: string, messageId: number): Promise<boolean> {
+    if (!this.getMessage(conversationId, messageId)) return false;
+    const onPath = this.sql
+      .exec(`${ACTIVE_PATH} SELECT 1 FROM path WHERE id = ?`, conversationId, messageId)
+      .toArray().length;
+    if (!onPath) this.setHead(conversationId, this.latestLeaf(conversationId, messageId));
+    return true;
+  }
+
+  /**
+   * Starts continuing a reply that was cut short: it must be the active branch's head. Returns it
+   * and the user message it answers, or null.
+   */
+  async beginContinue(
+    conversationId: string,
+    messageId: number
+  ): Promise<{ question: StoredMessage; reply: StoredMessage } | null> {
+    if (this.getHead(conversationId) !== messageId) return null;
+    const reply = this.getMessage(conversationId, messageId);
+    if (!reply || reply.role !== "assistant" || !reply.truncated || reply.parent_id === null) return null;
+    const question = this.getMessage(conversationId, reply.parent_id);
+    if (!question || question.role !== "user") return null;
+    return { question: toMessage(question), reply: toMessage(reply) };
+  }
+
+  // Appends the continuation's text to a reply; null if there is no such message
+  async extendReply(
+    conversationId: string,
+    messageId: number,
+    text: string,
+    truncated: boolean
+  ): Promise<StoredMessage | null> {
+    const row = this.getMessage(conversationId, messageId);
+    if (!row) return null;
+    const content = row.content + text;
+    const updated = this.sql
+      .exec<MessageRow>(
+        `UPDATE messages SET content = ?, tokens = ?, truncated = ?, updated_at = ? WHERE id = ?
+         RETURNING id, parent_id, role, content, tokens, created_at, truncated`,
+        content,
+        estimateTokens({ role: row.role, content }),
+        truncated ? 1 : 0,
+        Date.now(),
+        messageId
+      )
+      .one();
+    const message = toMessage(updated);
+    this.broadcast({ type: "message", conversationId, message });
+    return message;
+  }
+
+  // relayStream registers the question it answers while it runs; ending clears any stop request
+  async streamStarted(questionId: number): Promise<void> {
+    this.streamingQuestions.add(questionId);
+  }
+
+  async streamEnded(questionId: number): Promise<void> {
+    this.streamingQuestions.delete(questionId);
+    this.stopRequests.delete(questionId);
+  }
+
+  // Stop requests for running streams, by the id of the user message being answered; ignored when
+  // no stream is answering it. In memory: the stream polls while it runs, which keeps this object alive
+  async requestStop(questionId: number): Promise<void> {
+    if (this.streamingQuestions.has(questionId)) this.stopRequests.add(questionId);
+  }
+
+  // true once if a stop was requested for this stream
+  async takeStop(questionId: number): Promise<boolean> {
+    return this.stopRequests.delete(questionId);
+  }
+
+  // Records that the Worker folded the active branch up to message `through` into the running summary
+  async compact(conversationId: string, through: number, text: string): Promise<Summary> {
+    this.sql.exec(
+      "INSERT OR REPLACE INTO message_summaries (message_id, conversation_id, text) VALUES (?, ?, ?)",
+      through,
+      conversationId,
+      text
+    );
+    return this.getSummary(conversationId);
+  }
+
+  /**
+   * Clears one thread. Without a conversationId, wipes all chat memory but keeps the account,
+   * its tasks, quota usage and uploaded documents.
+   */
+  async clear(conversationId?: string): Promise<void> {
+    if (conversationId) {
+      this.clearConversation(conversationId);
+      return;
+    }
+
+    // Only chat tables: the KV keys (`auth`, `authAttempts`, `tasks`, `tasks:imported`, `ratelimit`,
+    // `usage:<day>`) stay, so clearing can't reset the rate limit or the daily token quota
+    this.ctx.storage.transactionSync(() => {
+      this.sql.exec("DELETE FROM messages");
+      this.sql.exec("DELETE FROM message_summaries");
+      this.sql.exec("DELETE FROM conversations");
+      this.deleteMemories();
+    });
+  }
+
+  /**
+   * Full-text search over every thread's messages (the `messages_fts` index), best match first.
+   * Each word of `query` must match, as a word prefix.
+   */
+  async searchMessages(query: string, filters: MessageSearchFilters = {}): Promise<MessageHit[]> {
+    const match = ftsQuery(query);
+    if (!match) return [];
+
+    const where = ["messages_fts MATCH ?"];
+    const args: (string | number)[] = [match];
+    if (filters.role) {
+      where.push("m.role = ?");
+      args.push(filters.role);
+    }
+    if (filters.conversationId) {
+      where.push("m.conversation_id = ?");
+      args.push(filters.conversationId);
+    }
+    if (filters.from !== undefined) {
+      where.push("m.created_at >= ?");
+      args.push(filters.from);
+    }
+    if (filters.to !== undefined) {
+      where.push("m.created_at <= ?");
+      args.push(filters.to);
+    }
+    const limit = Math.min(MAX_SEARCH_HITS, Math.max(1, Math.floor(filters.limit ?? 0) || DEFAULT_SEARCH_HITS));
+
+    return this.sql
+      .exec<SearchRow>(
+        `SELECT m.id, m.conversation_id, c.title, m.role, m.created_at,
+           snippet(messages_fts, 0, '«', '»', '…', 12) AS snippet
+         FROM messages_fts
+         JOIN messages m ON m.id = messages_fts.rowid
+         LEFT JOIN conversations c ON c.id = m.conversation_id
+         WHERE ${where.join(" AND ")}
+         ORDER BY rank
+         LIMIT ?`,
+        ...args,
+        limit
+      )
+      .toArray()
+      .map((r) => ({
+        id: r.id,
+        conversationId: r.conversation_id,
+        conversationTitle: r.title ?? UNTITLED,
+        role: r.role,
+        snippet: r.snippet,
+        createdAt: r.created_at,
+      }));
+  }
+
+  // ---------- Conversations ----------
+
+  async listConversations(): Promise<Conversation[]> {
+    return this.sql
+      .exec<ConversationRow>("SELECT * FROM conversations ORDER BY updated_at DESC")
+      .toArray()
+      .map(toConversation);
   }
 
+  async createConversation(title?: string): Promise<Conversation> {
+    const now = Date.now();
+    const convo: Conversation = {
+      id: crypto.randomUUID(),
+      title: title?.trim() || UNTITLED,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.sql.exec(
+      "INSERT INTO conversations (id, title, created_at, updated_at) VALUES (?, ?, ?, ?)",
+      convo.id,
+      convo.title,
+      convo.createdAt,
+      convo.updatedAt
+    );
+    return convo;
+  }
+
+  // null if there is no such conversation
+  async renameConversation(conversationId: string, title: string): Promise<Conversation | null> {
+    const row = this.sql
+      .exec<ConversationRow>(
+        "UPDATE conversations SET title = COALESCE(NULLIF(?, ''), title), updated_at = ? WHERE id = ? RETURNING *",
+        title.trim(),
+        Date.now(),
+        conversationId
+      )
+      .toArray()[0];
+    return row ? toConversation(row) : null;
+  }
+
+  async deleteConversation(conversationId: string): Promise<void> {
+    this.clearConversation(conversationId);
+    this.sql.exec("DELETE FROM conversations WHERE id = ?", conversationId);
+  }
+
+  // ---------- Long-term memory: one row per embedded chat turn ----------
+
+  async listMemories(): Promise<Memory[]> {
+    return this.sql
+      .exec<MemoryRow>(
+        "SELECT id, conversation_id, question, answer, created_at FROM memories ORDER BY created_at DESC"
+      )
+      .toArray()
+      .map(toMemory);
+  }
+
+  async addMemory(turn: {
+    conversationId: string;
+    question: string;
+    answer: string;
+    embedding: number[];
+  }): Promise<string> {
+    const id = crypto.randomUUID();
+    this.sql.exec(
+      "INSERT INTO memories (id, conversation_id, question, answer, embedding, created_at) VALUES (?, ?, ?, ?, ?, ?)",
+      id,
+      turn.conversationId,
+      turn.question,
+      turn.answer,
+      new Float32Array(turn.embedding).buffer,
+      Date.now()
+    );
+    this.sql.exec(
+      "DELETE FROM memories WHERE id NOT IN (SELECT id FROM memories ORDER BY created_at DESC LIMIT ?)",
+      MAX_MEMORIES
+    );
+    return id;
+  }
+
+  // Local cosine-similarity scan, best hits first
+  async searchMemories(embedding: number[], k: number, minScore = 0): Promise<MemoryHit[]> {
+    return this.sql
+      .exec<MemoryRow & { embedding: ArrayBuffer }>("SELECT * FROM memories")
+      .toArray()
+      .map((r) => ({ ...toMemory(r), score: cosineSimilarity(embedding, new Float32Array(r.embedding)) }))
+      .filter((h) => h.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, Math.max(0, k));
+  }
+
+  // false if there is no such memory
+  async deleteMemory(id: string): Promise<boolean> {
+    return this.sql.exec("DELETE FROM memories WHERE id = ?", id).rowsWritten > 0;
+  }
+
+  // ---------- Documents ----------
+
+  // Metadata + chunk counts, newest first
+  async listDocuments(): Promise<DocumentInfo[]> {
+    return this.sql
+      .exec<{ id: string; name: string; chars: number; created_at: number; chunks: number }>(
+        `SELECT d.id, d.name, d.chars, d.created_at, COUNT(c.idx) AS chunks
+         FROM documents d LEFT JOIN doc_chunks c ON c.doc_id = d.id
+         GROUP BY d.id ORDER BY d.created_at DESC`
+      )
+      .toArray()
+      .map((r) => ({ id: r.id, name: r.name, chars: r.chars, chunks: r.chunks, createdAt: r.created_at }));
+  }
+
+  // The document and all its chunks are stored in one transaction
+  async addDocument(doc: {
+    name: string;
+    chars: number;
+    chunks: { content: string; embedding: number[] }[];
+  }): Promise<DocumentInfo> {
+    const info: DocumentInfo = {
+      id: crypto.randomUUID(),
+      name: doc.name,
+      chars: doc.chars,
+      chunks: doc.chunks.length,
+      createdAt: Date.now(),
+    };
+
+    this.ctx.storage.transactionSync(() => {
+      this.sql.exec(
+        "INSERT INTO documents (id, name, chars, created_at) VALUES (?, ?, ?, ?)",
+        info.id,
+        info.name,
+        info.chars,
+        info.createdAt
+      );
+      doc.chunks.forEach((c, i) =>
+        this.sql.exec(
+          "INSERT INTO doc_chunks (doc_id, idx, content, embedding) VALUES (?, ?, ?, ?)",
+          info.id,
+          i,
+          c.content,
+          new Float32Array(c.embedding).buffer
+        )
+      );
+    });
+    return info;
+  }
+
+  // Same local cosine scan as memories, over every chunk of every document
+  async searchDocuments(embedding: number[], k: number, minScore = 0): Promise<DocumentHit[]> {
+    return this.sql
+      .exec<{ doc_id: string; name: string; idx: number; content: string; embedding: ArrayBuffer }>(
+        "SELECT c.doc_id, d.name, c.idx, c.content, c.embedding FROM doc_chunks c JOIN documents d ON d.id = c.doc_id"
+      )
+      .toArray()
+      .map((r) => ({
+        docId: r.doc_id,
+        name: r.name,
+        chunk: r.idx,
+        content: r.content,
+        score: cosineSimilarity(embedding, new Float32Array(r.embedding)),
+      }))
+      .filter((h) => h.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, Math.max(0, k));
+  }
+
+  // false if there is no such document
+  async deleteDocument(id: string): Promise<boolean> {
+    return this.ctx.storage.transactionSync(() => {
+      if (this.sql.exec("DELETE FROM documents WHERE id = ?", id).rowsWritten === 0) return false;
+      this.sql.exec("DELETE FROM doc_chunks WHERE doc_id = ?", id);
+      return true;
+    });
+  }
+
+  // ---------- Task registry (newest first) ----------
+
+  async listTasks(): Promise<TaskRecord[]> {
+    return (await this.ctx.storage.get<TaskRecord[]>("tasks")) ?? [];
+  }
+
+  // null unless this user started the task
+  async getTask(id: string): Promise<TaskRecord | null> {
+    return (await this.listTasks()).find((t) => t.id === id) ?? null;
+  }
+
+  // Task records from imports: kept for exports only. They are not in the registry, which is what
+  // grants access to a workflow instance, since an export can name anyone's instance id.
+  async listImportedTasks(): Promise<TaskRecord[]> {
+    return (await this.ctx.storage.get<TaskRecord[]>("tasks:imported")) ?? [];
+  }
+
+  async addTask(id: string, goal: string, status = "queued"): Promise<TaskRecord> {
+    const now = Date.now();
+    const task: TaskRecord = { id, goal, createdAt: now, updatedAt: now, status };
+
+    const tasks = await this.listTasks();
+    await this.ctx.storage.put("tasks", [task, ...tasks].slice(0, MAX_TASKS));
+    return task;
+  }
+
+  // Partial update; null if there is no such task
+  async updateTask(
+    id: string,
+    patch: Partial<Pick<TaskRecord, "status" | "output" | "error">>
+  ): Promise<TaskRecord | null> {
+    const tasks = await this.listTasks();
+    const task = tasks.find((t) => t.id === id);
+    if (!task) return null;
+
+    const finished = FINISHED_TASK_STATUSES.includes(task.status);
+    Object.assign(task, patch, { updatedAt: Date.now() });
+    await this.ctx.storage.put("tasks", tasks);
+    if (!finished && FINISHED_TASK_STATUSES.includes(task.status)) this.broadcast({ type: "task", task });
+    return task;
+  }
+
+  // ---------- Personas and task prompts (see worker/prompts.ts); texts are versioned ----------
+
+  private latestPrompt(key: string): PromptVersionRow | null {
+    return (
+      this.sql
+        .exec<PromptVersionRow>(
+          "SELECT version, text, created_at FROM prompt_versions WHERE prompt_key = ? ORDER BY version DESC LIMIT 1",
+          key
+        )
+        .toArray()[0] ?? null
+    );
+  }
+
+  private addPromptVersion(key: string, text: string, now: number): number {
+    const version = (this.latestPrompt(key)?.version ?? 0) + 1;
+    this.sql.exec(
+      "INSERT INTO prompt_versions (prompt_key, version, text, created_at) VALUES (?, ?, ?, ?)",
+      key,
+      version,
+      text,
+      now
+    );
+    return version;
+  }
+
+  private toPersona(r: PersonaRow): Persona {
+    const latest = this.latestPrompt(personaKey(r.id));
+    return {
+      id: r.id,
+      name: r.name,
+      prompt: latest?.text ?? DEFAULT_PERSONA_PROMPT,
+      version: latest?.version ?? 0,
+      builtIn: r.id === DEFAULT_PERSONA_ID,
+      updatedAt: Math.max(r.updated_at, latest?.created_at ?? 0),
+    };
+  }
+
+  // The built-in persona has no row of its own
+  private personaRow(id: string): PersonaRow | null {
+    if (id === DEFAULT_PERSONA_ID) return { id, name: DEFAULT_PERSONA_NAME, updated_at: 0 };
+    return (
+      this.sql.exec<PersonaRow>("SELECT id, name, updated_at FROM personas WHERE id = ?", id).toArray()[0] ??
+      null
+    );
+  }
+
+  // The built-in persona first, then the user's, oldest first
+  async listPersonas(): Promise<PersonaList> {
+    const rows = this.sql
+      .exec<PersonaRow>("SELECT id, name, updated_at FROM personas ORDER BY created_at")
+      .toArray();
+    return {
+      personas: [this.personaRow(DEFAULT_PERSONA_ID)!, ...rows].map((r) => this.toPersona(r)),
+      selected: (await this.activePersona()).id,
+    };
+  }
+
+  // The selected persona; the built-in one when none is (or it was deleted)
+  async activePersona(): Promise<Persona> {
+    const selected = await this.ctx.storage.get<string>("persona");
+    return this.toPersona(this.personaRow(selected ?? DEFAULT_PERSONA_ID) ?? this.personaRow(DEFAULT_PERSONA_ID)!);
+  }
+
+  /**
+   * Creates a persona (no `id`) or saves a new version of one; `name` is kept when omitted and
+   * can't change on the built-in persona. null if there is no such persona. The Worker checks
+   * the prompt (worker/prompts.ts) first.
+   */
+  async savePersona(persona: { id?: string; name?: string; prompt: string }): Promise<Persona | null> {
+    const now = Date.now();
+    const id = persona.id ?? crypto.randomUUID();
+
+    return this.ctx.storage.transactionSync(() => {
+      if (!persona.id) {
+        this.sql.exec(
+          "INSERT INTO personas (id, name, created_at, updated_at) VALUES (?, ?, ?, ?)",
+          id,
+          persona.name?.trim() || "Untitled persona",
+          now,
+          now
+        );
+      } else if (id !== DEFAULT_PERSONA_ID) {
+        const updated = this.sql.exec(
+          "UPDATE personas SET name = COALESCE(NULLIF(?, ''), name), updated_at = ? WHERE id = ?",
+          persona.name?.trim() ?? "",
+          now,
+          id
+        );
+        if (updated.rowsWritten === 0) return null;
+      }
+
+      if (persona.prompt !== this.latestPrompt(personaKey(id))?.text) {
+        this.addPromptVersion(personaKey(id), persona.prompt, now);
+      }
+      return this.toPersona(this.personaRow(id)!);
+    });
+  }
+
+  // false if there is no such persona (or it is the built-in one)
+  async deletePersona(id: string): Promise<boolean> {
+    if (id === DEFAULT_PERSONA_ID) return false;
+    const deleted = this.ctx.storage.transactionSync(() => {
+      if (this.sql.exec("DELETE FROM personas WHERE id = ?", id).rowsWritten === 0) return false;
+      this.sql.exec("DELETE FROM prompt_versions WHERE prompt_key = ?", personaKey(id));
+      return true;
+    });
+    if (deleted && (await this.ctx.storage.get<string>("persona")) === id) {
+      await this.ctx.storage.delete("persona");
+    }
+    return deleted;
+  }
+
+  // false if there is no such persona
+  async selectPersona(id: string): Promise<boolean> {
+    if (!this.personaRow(id)) return false;
+    await this.ctx.storage.put("persona", id);
+    return true;
+  }
+
+  // Texts saved for a persona, newest first; null if there is no such persona
+  async personaVersions(id: string): Promise<PromptVersion[] | null> {
+    return this.personaRow(id) ? this.promptVersions(personaKey(id)) : null;
+  }
+
+  async promptVersions(key: string): Promise<PromptVersion[]> {
+    return this.sql
+      .exec<PromptVersionRow>(
+        "SELECT version, text, created_at FROM prompt_versions WHERE prompt_key = ? ORDER BY version DESC",
+        key
+      )
+      .toArray()
+      .map((r) => ({ version: r.version, text: r.text, createdAt: r.created_at }));
+  }
+
+  // The task workflow's prompts, with this user's latest edits
+  async listTaskPrompts(): Promise<PromptTemplate[]> {
+    return Object.entries(TASK_PROMPTS).map(([key, p]) => {
+      const latest = this.latestPrompt(key);
+      return {
+        key,
+        label: p.label,
+        text: latest?.text ?? p.text,
+        defaultText: p.text,
+        version: latest?.version ?? 0,
+        variables: p.variables,
+      };
+    });
+  }
+
+  // Saves a new version (saving `defaultText` again restores the built-in prompt)
+  async saveTaskPrompt(key: TaskPromptKey, text: string): Promise<PromptTemplate> {
+    if (text !== this.latestPrompt(key)?.text) this.addPromptVersion(key, text, Date.now());
+    return (await this.listTaskPrompts()).find((p) => p.key === key)!;
+  }
+
+  // ---------- Export / import (see worker/export.ts for the formats) ----------
+
+  // Every thread (or just `conversationId`) with all its branches; the task registry on full exports
+  async exportData(conversationId?: string): Promise<ChatExport> {
+    const conversations = (await this.listConversations())
+      .filter((c) => !conversationId || c.id === conversationId)
+      .map((c): ExportedConversation => {
+        const messages = this.sql
+          .exec<Omit<MessageRow, "tokens">>(
+            "SELECT id, parent_id, role, content, created_at, truncated FROM messages WHERE conversation_id = ? ORDER BY id",
+            c.id
+          )
+          .toArray();
+        const index = new Map(messages.map((m, i) => [m.id, i]));
+        const head = this.getHead(c.id);
+        const summary = this.getSummary(c.id);
+        const branch = this.sql.exec<{ id: number }>(`${ACTIVE_PATH} SELECT id FROM path`, c.id).toArray();
+
+        return {
+          ...c,
+          head: head === null ? undefined : index.get(head),
+          summary: summary.text
+            ? { text: summary.text, coveredMessages: branch.filter((m) => m.id <= summary.coveredThrough).length }
+            : undefined,
+          messages: messages.map((m) => ({
+            role: m.role,
+            content: m.content,
+            createdAt: m.created_at,
+            parent: m.parent_id === null ? null : index.get(m.parent_id) ?? null,
+            ...(m.truncated ? { truncated: true } : {}),
+          })),
+        };
+      });
+
+    return {
+      version: 1,
+      exportedAt: Date.now(),
+      conversations,
+      tasks: conversationId ? [] : [...(await this.listTasks()), ...(await this.listImportedTasks())],
+    };
+  }
+
+  /**
+   * Adds the threads and task records of an export. Nothing is overwritten: a thread whose id
+   * is taken gets a new one, and tasks already known are skipped. Tasks go to the imported list,
+   * never the registry. Imported turns are not embedded, so they are not recalled as long-term
+   * memories.
+   */
+  async importData(data: ChatExport): Promise<ImportResult> {
+    const result: ImportResult = { conversations: 0, messages: 0, tasks: 0 };
+
+    this.ctx.storage.transactionSync(() => {
+      for (const c of data.conversations) {
+        const taken = this.sql.exec("SELECT 1 FROM conversations WHERE id = ?", c.id).toArray().length > 0;
+        const id = taken ? crypto.randomUUID() : c.id;
+        this.sql.exec(
+          "INSERT INTO conversations (id, title, created_at, updated_at) VALUES (?, ?, ?, ?)",
+          id,
+          c.title.trim() || UNTITLED,
+          c.createdAt,
+          c.updatedAt
+        );
+
+        // Parents come before their children, so their new ids are always known
+        const ids: number[] = [];
+        c.messages.forEach((m, i) => {
+          const parent = parentIndex(c, i);
+          ids.push(
+            this.sql
+              .exec<{ id: number }>(
+                `INSERT INTO messages (conversation_id, parent_id, role, content, tokens, created_at, updated_at, truncated)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?) RETURNING id`,
+                id,
+                parent === null ? null : ids[parent],
+                m.role,
+                m.content,
+                estimateTokens(m),
+                m.createdAt,
+                m.createdAt,
+                m.truncated ? 1 : 0
+              )
+              .one().id
+          );
+        });
+
+        const branch = activeBranch(c);
+        if (branch.length > 0) this.setHead(id, ids[branch[branch.length - 1]]);
+        const covered = Math.min(c.summary?.coveredMessages ?? 0, branch.length);
+        if (c.summary?.text && covered > 0) {
+          this.sql.exec(
+            "INSERT INTO message_summaries (message_id, conversation_id, text) VALUES (?, ?, ?)",
+            ids[branch[covered - 1]],
+            id,
+            c.summary.text
+          );
+        }
+        result.conversations++;
+        result.messages += ids.length;
+      }
+    });
+
+    const imported = await this.listImportedTasks();
+    const known = new Set([...(await this.listTasks()), ...imported].map((t) => t.id));
+    const added = data.tasks.filter((t) => !known.has(t.id));
+    if (added.length > 0) {
+      const merged = [...imported, ...added].sort((a, b) => b.createdAt - a.createdAt);
+      await this.ctx.storage.put("tasks:imported", merged.slice(0, MAX_TASKS));
+      result.tasks = added.length;
+    }
+    return result;
+  }
+
+  // ---------- Quota ----------
+
+  // Per-user limiter: sliding window of request timestamps + daily token total
+  async checkQuota(limits: QuotaLimits): Promise<QuotaStatus> {
+    const timestamps = (await this.ctx.storage.get<number[]>("ratelimit")) ?? [];
+    const tokensToday = (await this.ctx.storage.get<number>(usageKey())) ?? 0;
+
+    const { status, window } = evaluateQuota(timestamps, tokensToday, limits);
+    await this.ctx.storage.put("ratelimit", window);
+    return status;
+  }
+
+  // Sign-in attempts against this account, or from one client IP (see authLimiterName)
+  async checkAuthAttempts(limit: number): Promise<AttemptStatus> {
+    const timestamps = (await this.ctx.storage.get<number[]>("authAttempts")) ?? [];
+    const { status, window } = evaluateAttempts(timestamps, limit);
+    await this.ctx.storage.put("authAttempts", window);
+    return status;
+  }
+
+  // Returns the day's new total
+  async consumeTokens(tokens: number): Promise<number> {
+    const key = usageKey();
+    const total = ((await this.ctx.storage.get<number>(key)) ?? 0) + Math.max(0, tokens || 0);
+    await this.ctx.storage.put(key, total);
+    return total;
+  }
+
+  // ---------- Usage stats (GET /api/usage) ----------
+
+  async recordUsage(entry: UsageEntry): Promise<void> {
+    const now = Date.now();
+    this.sql.exec(
+      `INSERT INTO usage_stats (day, route, model, requests, errors, tokens, latency_ms) VALUES (?, ?, ?, 1, ?, ?, ?)
+       ON CONFLICT (day, route, model) DO UPDATE SET
+         requests = requests + 1,
+         errors = errors + excluded.errors,
+         tokens = tokens + excluded.tokens,
+         latency_ms = latency_ms + excluded.latency_ms`,
+      utcDay(now),
+      entry.route,
+      entry.model ?? "",
+      entry.error ? 1 : 0,
+      Math.max(0, Math.ceil(entry.tokens || 0)),
+      Math.max(0, Math.round(entry.latencyMs || 0))
+    );
+    this.sql.exec("DELETE FROM usage_stats WHERE day < ?", utcDay(now - USAGE_RETENTION_DAYS * 86_400_000));
+  }
+
+  // Totals over the last `days` UTC days (today included)
+  async usageReport(days: number, limits: QuotaLimits): Promise<UsageReport> {
+    const since = utcDay(Date.now() - (days - 1) * 86_400_000);
+    const rows = (groupBy: "day" | "model" | "route") =>
+      this.sql
+        .exec<UsageRow>(
+          `SELECT ${groupBy} AS key, SUM(requests) AS requests, SUM(errors) AS errors, SUM(tokens) AS tokens,
+             SUM(latency_ms) AS latency_ms
+           FROM usage_stats WHERE day >= ? GROUP BY ${groupBy} ORDER BY ${groupBy === "day" ? "day DESC" : "tokens DESC"}`,
+          since
+        )
+        .toArray();
+
+    const byDay = rows("day");
+    return {
+      days,
+      totals: {
+        requests: byDay.reduce((n, r) => n + r.requests, 0),
+        errors: byDay.reduce((n, r) => n + r.errors, 0),
+        tokens: byDay.reduce((n, r) => n + r.tokens, 0),
+      },
+      byDay: byDay.map((r) => ({ day: r.key, requests: r.requests, errors: r.errors, tokens: r.tokens })),
+      byModel: rows("model")
+        .filter((r) => r.key)
+        .map((r) => ({ model: r.key, requests: r.requests, tokens: r.tokens })),
+      byRoute: rows("route").map((r) => ({
+        route: r.key,
+        requests: r.requests,
+        errors: r.errors,
+        tokens: r.tokens,
+        avgLatencyMs: Math.round(r.latency_ms / r.requests),
+      })),
+      quota: {
+        dailyTokens: limits.dailyTokens,
+        usedToday: (await this.ctx.storage.get<number>(usageKey())) ?? 0,
+      },
+    };
+  }
+
+  // ---------- Live updates: WebSocket /api/chat/ws ----------
+
+  /**
+   * Upgrade for GET /api/chat/ws (the Worker has checked the session). Sockets are accepted with
+   * the hibernation API, so idle tabs don't keep this object in memory; every open tab gets the
+   * user's updates (ChatSocketEvent in shared/types.ts).
+   */
   async fetch(request: Request): Promise<Response> {
-    const url = new URL(request.url);
+    const userId = request.headers.get(SOCKET_USER_HEADER);
+    if (request.headers.get("Upgrade") !== "websocket" || !userId) {
+      return new Response("Expected a WebSocket upgrade", { status: 426 });
+    }
+    const { 0: client, 1: server } = new WebSocketPair();
+    this.ctx.acceptWebSocket(server);
+    server.serializeAttachment({ userId } satisfies SocketAttachment);
+    return new Response(null, { status: 101, webSocket: client });
+  }
 
-    if (request.method === "GET" && url.pathname === "/get") {
-      const history = (await this.state.storage.get<any[]>("history")) ?? [];
-      return Response.json({ history });
+  async webSocketMessage(ws: WebSocket, data: string | ArrayBuffer) {
+    let request: ChatSocketRequest;
+    try {
+      request = JSON.parse(typeof data === "string" ? data : new TextDecoder().decode(data));
+    } catch {
+      return this.sendTo(ws, { type: "error", error: "Invalid JSON" });
     }
 
-    if (request.method === "POST" && url.pathname === "/append") {
-      const msg = await request.json<{ role: string; content: string }>();
-      const history = (await this.state.storage.get<any[]>("history")) ?? [];
-      history.push(msg);
+    switch (request?.type) {
+      case "send":
+        return this.socketTurn(ws, request);
+      case "cancel":
+        if (typeof request.questionId === "number") await this.requestStop(request.questionId);
+        return;
+      case "typing":
+        if (typeof request.conversationId === "string") {
+          this.broadcast({ type: "typing", conversationId: request.conversationId }, ws);
+        }
+        return;
+      default:
+        return this.sendTo(ws, { type: "error", error: "Unknown message type" });
+    }
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string) {
+    try {
+      ws.close(code, reason);
+    } catch {
+      // already closed (codes like 1006 can't be sent back)
+    }
+  }
 
-      // keep last 20 messages
-      const trimmed = history.slice(-20);
-      await this.state.storage.put("history", trimmed);
-      return Response.json({ ok: true, size: trimmed.length });
+  private sendTo(ws: WebSocket, event: ChatSocketEvent) {
+    try {
+      ws.send(JSON.stringify(event));
+    } catch {
+      // closing
     }
+  }
 
-    if (request.method === "POST" && url.pathname === "/clear") {
-      await this.state.storage.delete("history");
-      return Response.json({ ok: true });
+  // To every open tab, or all but `except`
+  private broadcast(event: ChatSocketEvent, except?: WebSocket) {
+    for (const ws of this.ctx.getWebSockets()) {
+      if (ws !== except) this.sendTo(ws, event);
     }
+  }
+
+  /**
+   * A streamed turn sent over a socket: the same pipeline as POST /api/chat/stream
+   * (worker/chat.ts), with its events sent to every tab. Rate limited, logged and metered like a
+   * request to that route.
+   */
+  private async socketTurn(ws: WebSocket, request: Extract<ChatSocketRequest, { type: "send" }>) {
+    const { userId } = ws.deserializeAttachment() as SocketAttachment;
+    const turnId = String(request.turnId ?? "");
+    const trace: Trace = {
+      requestId: crypto.randomUUID(),
+      method: "WS",
+      route: SOCKET_ROUTE,
+      start: Date.now(),
+      user: userId,
+      tokens: 0,
+    };
+    const finish = async (status: number, error?: string) => {
+      if (error) {
+        traceError(trace, error);
+        this.sendTo(ws, { type: "error", turnId, error });
+      }
+      const latencyMs = logTrace(trace, status);
+      await this.recordUsage({
+        route: SOCKET_ROUTE,
+        model: trace.model ?? null,
+        tokens: trace.tokens,
+        latencyMs,
+        error: status >= 400,
+      });
+    };
+
+    // Same body checks as POST /api/chat/stream
+    const problem = checkFields(request, SCHEMAS.chat);
+    if (problem) return finish(400, problem);
+
+    const quota = await this.checkQuota(parseLimits(this.env));
+    if (!quota.allowed) {
+      return finish(429, quota.remainingTokens === 0 ? "Daily token quota exceeded" : "Too many requests");
+    }
+
+    // The chat pipeline uses MemoryDO over RPC; here that is this object's own stub
+    const stub = this.env.MEMORY.get(this.ctx.id);
+    let opened;
+    try {
+      opened = await openStream(this.env, stub, { userId, body: request, continuing: false, trace });
+    } catch (e) {
+      if (e instanceof InferenceError) return finish(502, "The model is unavailable, please try again");
+      traceError(trace, e);
+      return finish(500, "Internal error");
+    }
+    if (!opened.ok) return finish(opened.status, opened.error);
+
+    const { stream } = opened;
+    await relayStream(
+      this.env,
+      stub,
+      stream,
+      (event) => this.broadcast({ type: "stream", turnId, conversationId: stream.conversationId, event }),
+      { trace, waitUntil: (promise) => this.ctx.waitUntil(promise) }
+    );
+    await finish(200);
+  }
+
+  // ---------- Account (the DO name is the username) ----------
+
+  async getCredentials(): Promise<Credentials | null> {
+    return (await this.ctx.storage.get<Credentials>("auth")) ?? null;
+  }
 
-    return new Response("Not found", { status: 404 });
+  // false if the account already exists
+  async register(credentials: Credentials): Promise<boolean> {
+    if (await this.ctx.storage.get("auth")) return false;
+    await this.ctx.storage.put("auth", credentials);
+    return true;
   }
-}
\ No newline at end of file
+}
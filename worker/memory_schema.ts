@@ -0,0 +1,257 @@
+import { estimateTokens } from "./context_window";
+
+// MemoryDO's SQLite schema. Migrations run in order, once each, when the object starts;
+// applied versions are recorded in `schema_migrations`. Never edit a shipped migration:
+// add a new one.
+
+export type Migration = {
+  version: number;
+  description: string;
+  up(storage: DurableObjectStorage): void;
+};
+
+// Migrations are snapshots: values they depend on are copied here rather than imported
+const DEFAULT_CONVERSATION_ID = "default";
+const UNTITLED = "New chat";
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "long-term memories and documents",
+    up(storage) {
+      storage.sql.exec(`
+        CREATE TABLE memories (
+          id TEXT PRIMARY KEY,
+          conversation_id TEXT NOT NULL,
+          question TEXT NOT NULL,
+          answer TEXT NOT NULL,
+          embedding BLOB NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+        CREATE TABLE documents (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          chars INTEGER NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+        CREATE TABLE doc_chunks (
+          doc_id TEXT NOT NULL,
+          idx INTEGER NOT NULL,
+          content TEXT NOT NULL,
+          embedding BLOB NOT NULL,
+          PRIMARY KEY (doc_id, idx)
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: "conversations, messages and summaries",
+    up(storage) {
+      storage.sql.exec(`
+        CREATE TABLE conversations (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+        CREATE TABLE messages (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          conversation_id TEXT NOT NULL,
+          role TEXT NOT NULL,
+          content TEXT NOT NULL,
+          tokens INTEGER NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+        CREATE INDEX messages_by_conversation ON messages (conversation_id, id);
+        CREATE TABLE summaries (
+          conversation_id TEXT PRIMARY KEY,
+          text TEXT NOT NULL,
+          covered_through INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 3,
+    description: "import conversations, history and summaries from the old KV blobs",
+    up(storage) {
+      const { sql, kv } = storage;
+      const now = Date.now();
+
+      const conversations =
+        kv.get<{ id: string; title: string; createdAt: number; updatedAt: number }[]>("conversations") ?? [];
+      for (const c of conversations) {
+        sql.exec(
+          "INSERT OR IGNORE INTO conversations (id, title, created_at, updated_at) VALUES (?, ?, ?, ?)",
+          c.id,
+          c.title,
+          c.createdAt,
+          c.updatedAt
+        );
+      }
+      kv.delete("conversations");
+
+      // "history" is the default thread, "history:<id>" the others (same for "summary")
+      for (const [key, history] of [...kv.list<{ role: string; content: string }[]>({ prefix: "history" })]) {
+        const conversationId = key === "history" ? DEFAULT_CONVERSATION_ID : key.slice("history:".length);
+        sql.exec(
+          "INSERT OR IGNORE INTO conversations (id, title, created_at, updated_at) VALUES (?, ?, ?, ?)",
+          conversationId,
+          UNTITLED,
+          now,
+          now
+        );
+
+        const ids = history.map(
+          (m) =>
+            sql
+              .exec<{ id: number }>(
+                `INSERT INTO messages (conversation_id, role, content, tokens, created_at, updated_at)
+                 VALUES (?, ?, ?, ?, ?, ?) RETURNING id`,
+                conversationId,
+                m.role,
+                m.content,
+                estimateTokens(m),
+                now,
+                now
+              )
+              .one().id
+        );
+
+        const summaryKey = key === "history" ? "summary" : `summary:${conversationId}`;
+        const summary = kv.get<{ text: string; covered: number }>(summaryKey);
+        if (summary?.text) {
+          sql.exec(
+            "INSERT INTO summaries (conversation_id, text, covered_through) VALUES (?, ?, ?)",
+            conversationId,
+            summary.text,
+            summary.covered > 0 ? ids[Math.min(summary.covered, ids.length) - 1] ?? 0 : 0
+          );
+        }
+        kv.delete(key);
+        kv.delete(summaryKey);
+      }
+    },
+  },
+  {
+    version: 4,
+    description: "full-text index over messages",
+    // External-content FTS5 table kept in step with `messages` by triggers
+    up(storage) {
+      storage.sql.exec(`
+        CREATE VIRTUAL TABLE messages_fts USING fts5(
+          content,
+          content = 'messages',
+          content_rowid = 'id',
+          tokenize = 'porter unicode61'
+        );
+        CREATE TRIGGER messages_fts_insert AFTER INSERT ON messages BEGIN
+          INSERT INTO messages_fts (rowid, content) VALUES (new.id, new.content);
+        END;
+        CREATE TRIGGER messages_fts_delete AFTER DELETE ON messages BEGIN
+          INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.id, old.content);
+        END;
+        CREATE TRIGGER messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+          INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.id, old.content);
+          INSERT INTO messages_fts (rowid, content) VALUES (new.id, new.content);
+        END;
+        INSERT INTO messages_fts (messages_fts) VALUES ('rebuild');
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: "message tree (branches) with per-message summaries",
+    up(storage) {
+      storage.sql.exec(`
+        ALTER TABLE messages ADD COLUMN parent_id INTEGER;
+        CREATE INDEX messages_by_parent ON messages (parent_id);
+        ALTER TABLE conversations ADD COLUMN head_id INTEGER;
+
+        -- Existing threads become single branches: each message's parent is the one before it
+        UPDATE messages SET parent_id = (
+          SELECT MAX(p.id) FROM messages p WHERE p.conversation_id = messages.conversation_id AND p.id < messages.id
+        );
+        UPDATE conversations SET head_id = (SELECT MAX(id) FROM messages WHERE conversation_id = conversations.id);
+
+        -- A summary covers the path from the root to one message, so it is keyed by that message
+        CREATE TABLE message_summaries (
+          message_id INTEGER PRIMARY KEY,
+          conversation_id TEXT NOT NULL,
+          text TEXT NOT NULL
+        );
+        INSERT INTO message_summaries (message_id, conversation_id, text)
+          SELECT covered_through, conversation_id, text FROM summaries WHERE covered_through > 0;
+        DROP TABLE summaries;
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: "personas and versioned prompt templates",
+    up(storage) {
+      storage.sql.exec(`
+        CREATE TABLE personas (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+        -- Every saved text of a persona ('persona:<id>') or task prompt ('task.plan', ...)
+        CREATE TABLE prompt_versions (
+          prompt_key TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          text TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          PRIMARY KEY (prompt_key, version)
+        );
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: "daily usage stats",
+    up(storage) {
+      storage.sql.exec(`
+        -- One row per UTC day, route and model ('' when no model ran); latency_ms is a sum
+        CREATE TABLE usage_stats (
+          day TEXT NOT NULL,
+          route TEXT NOT NULL,
+          model TEXT NOT NULL,
+          requests INTEGER NOT NULL,
+          errors INTEGER NOT NULL,
+          tokens INTEGER NOT NULL,
+          latency_ms INTEGER NOT NULL,
+          PRIMARY KEY (day, route, model)
+        );
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: "flag for replies that were cut short",
+    up(storage) {
+      storage.sql.exec("ALTER TABLE messages ADD COLUMN truncated INTEGER NOT NULL DEFAULT 0");
+    },
+  },
+];
+
+// Applies pending migrations, each in its own transaction with its version record
+export function migrate(storage: DurableObjectStorage) {
+  storage.sql.exec(
+    "CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, applied_at INTEGER NOT NULL)"
+  );
+  const current =
+    storage.sql.exec<{ version: number | null }>("SELECT MAX(version) AS version FROM schema_migrations").one()
+      .version ?? 0;
+
+  for (const m of MIGRATIONS) {
+    if (m.version <= current) continue;
+    storage.transactionSync(() => {
+      m.up(storage);
+      storage.sql.exec("INSERT INTO schema_migrations (version, applied_at) VALUES (?, ?)", m.version, Date.now());
+    });
+  }
+}
@@ -0,0 +1,109 @@
+// Allowlist of Workers AI text models the API accepts, with per-model defaults and limits.
+
+import type { ModelInfo, ModelParams } from "../shared/types";
+
+export const DEFAULT_MODEL_ID = "@cf/meta/llama-3.3-70b-instruct-fp8-fast";
+
+export const MODELS: ModelInfo[] = [
+  {
+    id: DEFAULT_MODEL_ID,
+    label: "Llama 3.3 70B (fast)",
+    contextWindow: 24_000,
+    maxOutputTokens: 2048,
+    defaults: { max_tokens: 400, temperature: 0.4 },
+    streaming: true,
+    costWeight: 1,
+    fallbacks: ["@cf/mistralai/mistral-small-3.1-24b-instruct", "@cf/meta/llama-3.1-8b-instruct-fast"],
+  },
+  {
+    id: "@cf/meta/llama-3.1-8b-instruct-fast",
+    label: "Llama 3.1 8B (fast)",
+    contextWindow: 128_000,
+    maxOutputTokens: 2048,
+    defaults: { max_tokens: 400, temperature: 0.4 },
+    streaming: true,
+    costWeight: 0.2,
+    fallbacks: [DEFAULT_MODEL_ID],
+  },
+  {
+    id: "@cf/mistralai/mistral-small-3.1-24b-instruct",
+    label: "Mistral Small 3.1 24B",
+    contextWindow: 128_000,
+    maxOutputTokens: 2048,
+    defaults: { max_tokens: 400, temperature: 0.3 },
+    streaming: true,
+    costWeight: 0.6,
+    fallbacks: [DEFAULT_MODEL_ID, "@cf/meta/llama-3.1-8b-instruct-fast"],
+  },
+];
+
+export function getModel(id: string | undefined): ModelInfo | null {
+  return MODELS.find((m) => m.id === (id ?? DEFAULT_MODEL_ID)) ?? null;
+}
+
+// The requested model followed by its fallbacks (streaming callers only get streaming models)
+export function modelChain(model: ModelInfo, opts: { streaming?: boolean } = {}): ModelInfo[] {
+  const chain = [model];
+  for (const id of model.fallbacks) {
+    const next = getModel(id);
+    if (next && !chain.includes(next) && (!opts.streaming || next.streaming)) chain.push(next);
+  }
+  return chain;
+}
+
+// Per-request overrides: only known keys, each within the model's range
+export function resolveParams(
+  model: ModelInfo,
+  overrides: unknown
+): { ok: true; params: ModelParams } | { ok: false; error: string } {
+  if (overrides === undefined || overrides === null) return { ok: true, params: { ...model.defaults } };
+  if (typeof overrides !== "object" || Array.isArray(overrides)) {
+    return { ok: false, error: "params must be an object" };
+  }
+
+  const params: ModelParams = { ...model.defaults };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return { ok: false, error: `params.${key} must be a number` };
+    }
+
+    if (key === "max_tokens") {
+      if (!Number.isInteger(value) || value < 1 || value > model.maxOutputTokens) {
+        return { ok: false, error: `params.max_tokens must be an integer in 1..${model.maxOutputTokens}` };
+      }
+      params.max_tokens = value;
+    } else if (key === "temperature") {
+      if (value < 0 || value > 2) return { ok: false, error: "params.temperature must be in 0..2" };
+      params.temperature = value;
+    } else if (key === "top_p") {
+      if (value <= 0 || value > 1) return { ok: false, error: "params.top_p must be in (0, 1]" };
+      params.top_p = value;
+    } else {
+      return { ok: false, error: `Unknown param: ${key}` };
+    }
+  }
+
+  return { ok: true, params };
+}
+
+/**
+ * Validates the `model` / `params` fields of a request body against the allowlist.
+ * `streaming` rejects models that cannot stream.
+ */
+export function selectModel(
+  body: { model?: unknown; params?: unknown },
+  opts: { streaming?: boolean } = {}
+): { ok: true; model: ModelInfo; params: ModelParams } | { ok: false; error: string } {
+  if (body.model !== undefined && typeof body.model !== "string") {
+    return { ok: false, error: "model must be a string" };
+  }
+
+  const model = getModel(body.model);
+  if (!model) return { ok: false, error: `Unknown model: ${body.model}` };
+  if (opts.streaming && !model.streaming) {
+    return { ok: false, error: `Model does not support streaming: ${model.id}` };
+  }
+
+  const resolved = resolveParams(model, body.params);
+  return resolved.ok ? { ok: true, model, params: resolved.params } : resolved;
+}
@@ -0,0 +1,84 @@
+// Prompt templates: the built-in texts, and how edited ones are checked and filled in. Templates
+// name their variables as {{name}}. Users can add personas (chat system prompts) and edit the task
+// workflow's prompts; MemoryDO keeps every saved text as a version.
+
+export const DEFAULT_PERSONA_ID = "default";
+export const DEFAULT_PERSONA_NAME = "Assistant";
+export const DEFAULT_PERSONA_PROMPT =
+  "You are a helpful assistant. Use chat history for context. Be concise unless asked otherwise.";
+
+// {{memories}} puts recalled memories inside the system prompt instead of in a message after it
+export const PERSONA_VARIABLES = ["user", "date", "memories"];
+
+export const MAX_PROMPT_CHARS = 4000;
+export const MAX_PERSONA_NAME_CHARS = 60;
+// Personas per user, besides the built-in one
+export const MAX_PERSONAS = 20;
+
+type TaskPrompt = { label: string; text: string; variables: string[]; required: string[] };
+
+// The task workflow's system prompts. Their replies are parsed as JSON, so edits should keep the
+// requested output format
+export const TASK_PROMPTS = {
+  "task.plan": {
+    label: "Task planner",
+    text: 'You must respond with ONLY valid JSON of the form {"plan":["step 1","step 2","step 3"]}. No extra keys. No prose.',
+    variables: ["date"],
+    required: [],
+  },
+  "task.step": {
+    label: "Task step (tool use)",
+    text:
+      "You carry out ONE step of a plan towards the user's goal. You may call tools:\n{{tools}}\n" +
+      'Respond with ONLY JSON: {"tool":"<name>","args":{...}} to call one tool, or {"final":"<step output>"} when this step is done. Keep the step output short.',
+    variables: ["tools", "date"],
+    required: ["tools"],
+  },
+  "task.result": {
+    label: "Task result",
+    text: "Return a concise final answer (max ~8 sentences) from the step results. Do not repeat the plan. No 'final answer is' phrasing.",
+    variables: ["date"],
+    required: [],
+  },
+} satisfies Record<string, TaskPrompt>;
+
+export type TaskPromptKey = keyof typeof TASK_PROMPTS;
+
+export function isTaskPromptKey(key: unknown): key is TaskPromptKey {
+  return typeof key === "string" && Object.keys(TASK_PROMPTS).includes(key);
+}
+
+// Where a persona's texts are versioned (task prompts use their own key)
+export function personaKey(id: string): string {
+  return `persona:${id}`;
+}
+
+const VARIABLE = /\{\{\s*(\w+)\s*\}\}/g;
+
+export function templateVariables(text: string): string[] {
+  return [...new Set([...text.matchAll(VARIABLE)].map((m) => m[1]))];
+}
+
+// Error message for a template that can't be saved, or null
+export function checkTemplate(text: string, allowed: string[], required: string[] = []): string | null {
+  if (!text.trim()) return "Prompt is empty";
+  if (text.length > MAX_PROMPT_CHARS) return `Prompt too long (max ${MAX_PROMPT_CHARS} characters)`;
+
+  const used = templateVariables(text);
+  const unknown = used.find((v) => !allowed.includes(v));
+  if (unknown) {
+    return `Unknown variable {{${unknown}}} (available: ${allowed.map((v) => `{{${v}}}`).join(", ")})`;
+  }
+  const missing = required.find((v) => !used.includes(v));
+  return missing ? `Prompt must include {{${missing}}}` : null;
+}
+
+// Unknown variables are left as written
+export function renderTemplate(text: string, vars: Record<string, string>): string {
+  return text.replace(VARIABLE, (match, name: string) => vars[name] ?? match);
+}
+
+// {{date}}: the current UTC date
+export function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
@@ -0,0 +1,154 @@
+import type { ChatMessage } from "./context_window";
+import { estimateTokens } from "./context_window";
+import type { MemoryStub } from "./memory_do";
+
+export type QuotaLimits = { requestsPerMinute: number; dailyTokens: number };
+
+export type QuotaStatus = {
+  allowed: boolean;
+  retryAfter: number; // seconds, 0 when allowed
+  remainingRequests: number;
+  remainingTokens: number;
+  limits: QuotaLimits;
+};
+
+export const DEFAULT_LIMITS: QuotaLimits = { requestsPerMinute: 20, dailyTokens: 50_000 };
+
+const WINDOW_MS = 60_000;
+
+function positiveInt(value: string | undefined, fallback: number) {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+export function parseLimits(env: { RATE_LIMIT_PER_MINUTE?: string; DAILY_TOKEN_QUOTA?: string }): QuotaLimits {
+  return {
+    requestsPerMinute: positiveInt(env.RATE_LIMIT_PER_MINUTE, DEFAULT_LIMITS.requestsPerMinute),
+    dailyTokens: positiveInt(env.DAILY_TOKEN_QUOTA, DEFAULT_LIMITS.dailyTokens),
+  };
+}
+
+// Daily token usage is bucketed per UTC day
+export function usageKey(now = Date.now()) {
+  return `usage:${new Date(now).toISOString().slice(0, 10)}`;
+}
+
+export function secondsUntilNextUtcDay(now = Date.now()) {
+  const next = new Date(now);
+  next.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((next.getTime() - now) / 1000);
+}
+
+/**
+ * Sliding-window check over the request timestamps of the last minute plus the day's
+ * token total. Returns the pruned window (including this request when allowed).
+ */
+export function evaluateQuota(
+  timestamps: number[],
+  tokensUsedToday: number,
+  limits: QuotaLimits,
+  now = Date.now()
+): { status: QuotaStatus; window: number[] } {
+  const window = timestamps.filter((t) => now - t < WINDOW_MS);
+  const remainingTokens = Math.max(0, limits.dailyTokens - tokensUsedToday);
+
+  if (remainingTokens === 0) {
+    return {
+      window,
+      status: {
+        allowed: false,
+        retryAfter: secondsUntilNextUtcDay(now),
+        remainingRequests: Math.max(0, limits.requestsPerMinute - window.length),
+        remainingTokens,
+        limits,
+      },
+    };
+  }
+
+  if (window.length >= limits.requestsPerMinute) {
+    return {
+      window,
+      status: {
+        allowed: false,
+        retryAfter: Math.max(1, Math.ceil((window[0] + WINDOW_MS - now) / 1000)),
+        remainingRequests: 0,
+        remainingTokens,
+        limits,
+      },
+    };
+  }
+
+  window.push(now);
+  return {
+    window,
+    status: {
+      allowed: true,
+      retryAfter: 0,
+      remainingRequests: limits.requestsPerMinute - window.length,
+      remainingTokens,
+      limits,
+    },
+  };
+}
+
+// Sign-in attempts (signup and login, before the password is hashed) per client IP and per username
+export const AUTH_ATTEMPT_LIMITS = { perIp: 20, perUsername: 10 };
+const AUTH_WINDOW_MS = 15 * 60_000;
+
+export type AttemptStatus = { allowed: boolean; retryAfter: number };
+
+/**
+ * Sliding-window check over the attempt timestamps of the last AUTH_WINDOW_MS, like
+ * evaluateQuota's request window. Returns the pruned window (including this attempt when allowed).
+ */
+export function evaluateAttempts(
+  timestamps: number[],
+  limit: number,
+  now = Date.now()
+): { status: AttemptStatus; window: number[] } {
+  const window = timestamps.filter((t) => now - t < AUTH_WINDOW_MS);
+  if (window.length >= limit) {
+    return {
+      window,
+      status: { allowed: false, retryAfter: Math.max(1, Math.ceil((window[0] + AUTH_WINDOW_MS - now) / 1000)) },
+    };
+  }
+  window.push(now);
+  return { window, status: { allowed: true, retryAfter: 0 } };
+}
+
+export function quotaHeaders(status: QuotaStatus): Record<string, string> {
+  const headers: Record<string, string> = {
+    "X-RateLimit-Limit": String(status.limits.requestsPerMinute),
+    "X-RateLimit-Remaining": String(status.remainingRequests),
+    "X-Quota-Limit-Tokens": String(status.limits.dailyTokens),
+    "X-Quota-Remaining-Tokens": String(status.remainingTokens),
+  };
+  if (!status.allowed) headers["Retry-After"] = String(status.retryAfter);
+  return headers;
+}
+
+export type AiUsage = { usage?: { total_tokens?: number } } | null | undefined;
+
+// Prefer the usage block Workers AI reports; estimate when the model omits it
+export function tokensUsed(result: AiUsage, prompt: ChatMessage[], completion: string): number {
+  const reported = Number(result?.usage?.total_tokens);
+  if (Number.isFinite(reported) && reported > 0) return reported;
+
+  return (
+    prompt.reduce((sum, m) => sum + estimateTokens(m), 0) +
+    estimateTokens({ role: "assistant", content: completion })
+  );
+}
+
+// Embedding calls report no usage: estimated from the input at ~4 characters a token
+export function embeddingTokens(texts: string[]): number {
+  return texts.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0);
+}
+
+// Adds (cost-weighted) tokens to the user's daily total (best-effort; never fails the request)
+export async function consumeTokens(stub: MemoryStub, tokens: number) {
+  tokens = Math.ceil(tokens);
+  if (tokens <= 0) return;
+  await stub.consumeTokens(tokens).catch(() => {});
+}
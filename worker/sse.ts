@@ -0,0 +1,75 @@
+import type { ChatStreamEvent } from "../shared/types";
+
+// Server-sent events: parsing the model's upstream stream, and writing the documented
+// /api/chat/stream protocol (ChatStreamEvent in shared/types.ts).
+
+const encoder = new TextEncoder();
+
+// One frame: the event type as the SSE event name, the whole event as JSON data, and its position
+// in the stream as the id (what a resuming client sends back as Last-Event-ID)
+export function sseFrame(event: ChatStreamEvent, id?: number): Uint8Array {
+  const idLine = id === undefined ? "" : `id: ${id}\n`;
+  return encoder.encode(`${idLine}event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Splits the complete frames (separated by a blank line) off the front of `buffer`. Returns
+ * each frame's data (multi-line data joined with "\n") and the incomplete rest to keep.
+ */
+export function splitFrames(buffer: string): { data: string[]; rest: string } {
+  const data: string[] = [];
+  let idx;
+  while ((idx = buffer.indexOf("\n\n")) !== -1) {
+    const frame = buffer.slice(0, idx);
+    buffer = buffer.slice(idx + 2);
+
+    const lines = frame
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trim());
+    if (lines.length > 0) data.push(lines.join("\n"));
+  }
+  return { data, rest: buffer };
+}
+
+// What one upstream data payload carries
+export type UpstreamChunk = {
+  text: string;
+  usage?: { total_tokens?: number };
+  error?: string;
+  done?: boolean; // the [DONE] sentinel
+};
+
+/**
+ * Reads one upstream payload: Workers AI's `{ response }` chunks or OpenAI-style
+ * `{ choices: [{ delta: { content } }] }` ones, a `usage` block, an in-band error, or `[DONE]`.
+ * null for anything else.
+ */
+export function parseUpstream(payload: string): UpstreamChunk | null {
+  if (payload === "[DONE]") return { text: "", done: true };
+
+  let obj;
+  try {
+    obj = JSON.parse(payload);
+  } catch {
+    return null; // not JSON
+  }
+  if (!obj || typeof obj !== "object") return null;
+
+  const text =
+    typeof obj.response === "string"
+      ? obj.response
+      : typeof obj.choices?.[0]?.delta?.content === "string"
+        ? obj.choices[0].delta.content
+        : "";
+  const error =
+    typeof obj.error === "string"
+      ? obj.error
+      : typeof obj.error?.message === "string"
+        ? obj.error.message
+        : Array.isArray(obj.errors) && obj.errors.length > 0
+          ? String(obj.errors[0]?.message ?? obj.errors[0])
+          : undefined;
+
+  return { text, ...(obj.usage ? { usage: obj.usage } : {}), ...(error ? { error } : {}) };
+}
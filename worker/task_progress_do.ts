@@ -0,0 +1,97 @@
+import type { ProgressEvent } from "../shared/types";
+
+// One instance per workflow instance id: TaskWorkflow publishes progress here and
+// GET /events streams it to any number of SSE subscribers (replay + live).
+
+type StoredEvent = ProgressEvent & { seq: number };
+
+const encoder = new TextEncoder();
+
+function isTerminal(e: ProgressEvent) {
+  return e.type === "complete" || e.type === "failed";
+}
+
+function frame(e: StoredEvent) {
+  return encoder.encode(`id: ${e.seq}\nevent: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`);
+}
+
+export class TaskProgressDO {
+  private state: DurableObjectState;
+  private subscribers = new Set<WritableStreamDefaultWriter<Uint8Array>>();
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+  }
+
+  private async broadcast(bytes: Uint8Array) {
+    for (const writer of [...this.subscribers]) {
+      try {
+        await writer.write(bytes);
+      } catch {
+        // client went away
+        this.subscribers.delete(writer);
+      }
+    }
+  }
+
+  private async closeAll() {
+    for (const writer of this.subscribers) writer.close().catch(() => {});
+    this.subscribers.clear();
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    // Events carry deterministic ids, so workflow replays can re-publish without duplicates
+    if (request.method === "POST" && url.pathname === "/publish") {
+      const event = await request.json<ProgressEvent>();
+      const events = (await this.state.storage.get<StoredEvent[]>("events")) ?? [];
+      if (events.some((e) => e.id === event.id)) return Response.json({ ok: true, duplicate: true });
+
+      const stored: StoredEvent = { ...event, seq: events.length + 1 };
+      events.push(stored);
+      await this.state.storage.put("events", events);
+
+      await this.broadcast(frame(stored));
+      if (isTerminal(event)) await this.closeAll();
+      return Response.json({ ok: true });
+    }
+
+    // Restarted instances start over with a fresh event log
+    if (request.method === "POST" && url.pathname === "/reset") {
+      await this.state.storage.delete("events");
+      return Response.json({ ok: true });
+    }
+
+    // SSE: replay everything after Last-Event-ID, then stay open until a terminal event
+    if (request.method === "GET" && url.pathname === "/events") {
+      const lastId = Number(request.headers.get("Last-Event-ID") ?? 0) || 0;
+      const events = (await this.state.storage.get<StoredEvent[]>("events")) ?? [];
+
+      const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+      const writer = writable.getWriter();
+
+      // Tell EventSource to reconnect quickly if the connection drops
+      writer.write(encoder.encode("retry: 2000\n\n")).catch(() => {});
+      for (const e of events) {
+        if (e.seq > lastId) writer.write(frame(e)).catch(() => {});
+      }
+
+      if (events.some(isTerminal)) {
+        writer.close().catch(() => {});
+      } else {
+        this.subscribers.add(writer);
+      }
+
+      return new Response(readable, {
+        headers: {
+          "content-type": "text/event-stream",
+          "cache-control": "no-cache",
+          "connection": "keep-alive",
+        },
+      });
+    }
+
+    return new Response("Not found", { status: 404 });
+  }
+}
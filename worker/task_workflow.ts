@@ -1,10 +1,46 @@
 import { WorkflowEntrypoint } from "cloudflare:workers";
 import type { WorkflowEvent, WorkflowStep } from "cloudflare:workers";
+import { consumeTokens, tokensUsed } from "./rate_limit";
+import type { AiUsage } from "./rate_limit";
+import { defaultHttpFetcher, describeTools, runTool } from "./tools";
+import type { HttpFetcher } from "./tools";
+import type { ChatMessage } from "./context_window";
+import { DEFAULT_MODEL_ID, getModel } from "./models";
+import type {
+  ModelInfo,
+  ModelParams,
+  ProgressEvent,
+  StepResult,
+  TaskOutput,
+  ToolArgs,
+  ToolCall,
+} from "../shared/types";
+import { runInference } from "./inference";
+import type { TextResult } from "./inference";
+import type { MemoryDO } from "./memory_do";
+import { TASK_PROMPTS, renderTemplate, today } from "./prompts";
+import type { TaskPromptKey } from "./prompts";
 
-export type TaskParams = { goal: string };
-export type TaskOutput = { plan: string[]; result: string };
+export type TaskParams = {
+  goal: string;
+  userId: string;
+  model?: string; // validated against the registry when the task is created
+  params?: Partial<ModelParams>; // explicit overrides only; step budgets keep their own max_tokens
+};
 
-export type WorkflowEnv = { AI: any };
+export type WorkflowEnv = {
+  AI: any;
+  MEMORY: DurableObjectNamespace<MemoryDO>;
+  TASK_WORKFLOW: Workflow<TaskParams>;
+  TASK_PROGRESS: DurableObjectNamespace;
+};
+
+// Upper bound on model turns per plan step (each turn may issue one tool call)
+const MAX_AGENT_TURNS = 6;
+
+type AgentDecision =
+  | { tool: string; args: ToolArgs }
+  | { final: string };
 
 function safeJsonParse(text: string): any | null {
   try {
@@ -14,25 +50,202 @@ function safeJsonParse(text: string): any | null {
   }
 }
 
+// Accepts bare JSON or JSON wrapped in prose/code fences; anything else is a final answer
+function parseDecision(text: string): AgentDecision {
+  const obj = safeJsonParse(text) ?? safeJsonParse(text.match(/\{[\s\S]*\}/)?.[0] ?? "");
+
+  if (obj && typeof obj.tool === "string") {
+    const args = obj.args && typeof obj.args === "object" ? obj.args : {};
+    return { tool: obj.tool, args };
+  }
+  if (obj && typeof obj.final === "string") return { final: obj.final };
+  return { final: text };
+}
+
+function formatSteps(steps: StepResult[]): string {
+  return steps
+    .map((s, i) => `Step ${i + 1} (${s.title}) [${s.status}]:\n${s.output}`)
+    .join("\n\n");
+}
+
 export class TaskWorkflow extends WorkflowEntrypoint<WorkflowEnv, TaskParams> {
-  async run(event: WorkflowEvent<TaskParams>, step: WorkflowStep): Promise<TaskOutput> {
-    const goal = event.payload.goal;
+  // Swappable for tests / stricter egress policies
+  protected http: HttpFetcher = defaultHttpFetcher;
 
-    const plan = await step.do("plan", async () => {
-      const r = await this.env.AI.run("@cf/meta/llama-3.3-70b-instruct-fp8-fast", {
-        messages: [
-          {
-            role: "system",
-            content:
-              'You must respond with ONLY valid JSON of the form {"plan":["step 1","step 2","step 3"]}. No extra keys. No prose.',
-          },
-          { role: "user", content: goal },
+  // Set from the event payload at the start of run()
+  private model: ModelInfo = getModel(DEFAULT_MODEL_ID)!;
+  private overrides: Partial<ModelParams> = {};
+  // The user's edited prompt templates (GET /api/prompts), loaded by execute()
+  private prompts: Record<string, string> = {};
+
+  private prompt(key: TaskPromptKey, vars: Record<string, string> = {}): string {
+    return renderTemplate(this.prompts[key] ?? TASK_PROMPTS[key].text, { date: today(), ...vars });
+  }
+
+  // Charge model usage to the user who started the task, at the rate of the model that answered
+  private async recordUsage(
+    userId: string,
+    served: ModelInfo,
+    result: AiUsage,
+    prompt: { role: string; content: string }[],
+    text: string,
+    latencyMs: number
+  ) {
+    if (!userId) return; // instances started before tasks carried a userId
+    const stub = this.env.MEMORY.get(this.env.MEMORY.idFromName(userId));
+    const tokens = tokensUsed(result, prompt, text) * served.costWeight;
+    await consumeTokens(stub, tokens);
+    // Usage stats count each workflow model call as one request (GET /api/usage)
+    await stub
+      .recordUsage({ route: "workflow", model: served.id, tokens, latencyMs, error: false })
+      .catch(() => {});
+  }
+
+  // Progress for GET /api/task/events (best-effort; never fails the workflow)
+  private async publish(instanceId: string, event: ProgressEvent) {
+    const stub = this.env.TASK_PROGRESS.get(this.env.TASK_PROGRESS.idFromName(instanceId));
+    await stub
+      .fetch("https://progress/publish", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(event),
+      })
+      .catch(() => {});
+  }
+
+  /**
+   * One model call (with the shared retry / fallback policy), charged to the task's user.
+   * If the whole fallback chain fails the error propagates, so `step.do` retries the step.
+   */
+  private async complete(
+    userId: string,
+    messages: ChatMessage[],
+    params: { max_tokens: number; temperature?: number }
+  ) {
+    // A step's own settings (e.g. the plan's low temperature) win over the task-wide overrides
+    const { temperature = 0.2, top_p } = this.overrides;
+    const start = Date.now();
+    const { result: r, model } = await runInference<TextResult>(this.env.AI, this.model, {
+      messages,
+      params: { temperature, ...(top_p !== undefined ? { top_p } : {}), ...params },
+    });
+
+    const text = String(r?.response ?? r?.output_text ?? "");
+    await this.recordUsage(userId, model, r, messages, text, Date.now() - start);
+    return text;
+  }
+
+  /**
+   * Agent loop for one plan item. Step names: `step-N` (first model turn), `step-N-turn-M`,
+   * `step-N-tool-M`, `step-N-finalize`. Every model turn and tool call is its own durable
+   * step, so a retry replays recorded tool output instead of repeating side effects.
+   */
+  private async runPlanStep(
+    step: WorkflowStep,
+    n: number,
+    ctx: {
+      goal: string;
+      plan: string[];
+      title: string;
+      userId: string;
+      steps: StepResult[];
+      trace: ToolCall[];
+    }
+  ): Promise<string> {
+    const transcript: ChatMessage[] = [
+      {
+        role: "system",
+        content: this.prompt("task.step", { tools: describeTools() }),
+      },
+      {
+        role: "user",
+        content:
+          `Goal: ${ctx.goal}\nPlan: ${JSON.stringify(ctx.plan)}\n\n` +
+          (ctx.steps.length ? `${formatSteps(ctx.steps)}\n\n` : "") +
+          `Current step ${n + 1}: ${ctx.title}`,
+      },
+    ];
+
+    for (let turn = 0; turn < MAX_AGENT_TURNS; turn++) {
+      // The step records the raw model text; parsing it is deterministic on replay
+      const name = turn === 0 ? `step-${n}` : `step-${n}-turn-${turn}`;
+      const reply = await step.do(name, async () => this.complete(ctx.userId, transcript, { max_tokens: 450 }));
+      const decision = parseDecision(reply);
+
+      if ("final" in decision) return decision.final;
+
+      const output = await step.do(`step-${n}-tool-${turn}`, async () =>
+        runTool(decision, { env: this.env, userId: ctx.userId, http: this.http })
+      );
+
+      ctx.trace.push({ step: n, tool: decision.tool, args: decision.args, output });
+      transcript.push(
+        { role: "assistant", content: JSON.stringify(decision) },
+        { role: "user", content: `Tool result (${decision.tool}):\n${output}` }
+      );
+    }
+
+    // Out of turns: ask for the step output with whatever the tools returned so far
+    const text = await step.do(`step-${n}-finalize`, async () =>
+      this.complete(
+        ctx.userId,
+        [
+          ...transcript,
+          { role: "user", content: 'No more tool calls. Respond with {"final":"<step output>"} now.' },
         ],
-        max_tokens: 180,
-        temperature: 0.1,
-      });
+        { max_tokens: 450 }
+      )
+    );
+    const decision = parseDecision(text);
+    return "final" in decision ? decision.final : text;
+  }
+
+  async run(event: WorkflowEvent<TaskParams>, step: WorkflowStep): Promise<TaskOutput> {
+    this.model = getModel(event.payload.model) ?? this.model;
+    this.overrides = event.payload.params ?? {};
+
+    try {
+      const output = await this.execute(event, step);
+      await this.publish(event.instanceId, { id: "complete", type: "complete", output });
+      await this.recordTask(event, { status: "complete", output, error: null });
+      return output;
+    } catch (e) {
+      const error = (e as Error)?.message ?? String(e);
+      await this.publish(event.instanceId, { id: "failed", type: "failed", error });
+      await this.recordTask(event, { status: "errored", error });
+      throw e;
+    }
+  }
+
+  // Final state goes into the user's task registry (GET /api/tasks); best-effort
+  private async recordTask(
+    event: WorkflowEvent<TaskParams>,
+    patch: { status: string; output?: TaskOutput; error: string | null }
+  ) {
+    if (!event.payload.userId) return;
+    const stub = this.env.MEMORY.get(this.env.MEMORY.idFromName(event.payload.userId));
+    await stub.updateTask(event.instanceId, patch).catch(() => {});
+  }
 
-      const text = String(r?.response ?? r?.output_text ?? "");
+  private async execute(event: WorkflowEvent<TaskParams>, step: WorkflowStep): Promise<TaskOutput> {
+    const { goal, userId } = event.payload;
+    // Progress event ids are deterministic, so replays after a restart don't duplicate them
+    await this.publish(event.instanceId, { id: "running", type: "status", status: "running" });
+
+    // Recorded once, so every step of this run (and its replays) uses the same templates
+    this.prompts = await step.do("prompts", async () => {
+      if (!userId) return {}; // instances started before tasks carried a userId
+      const stub = this.env.MEMORY.get(this.env.MEMORY.idFromName(userId));
+      const prompts = await stub.listTaskPrompts();
+      return Object.fromEntries(prompts.map((p) => [p.key, p.text]));
+    });
+
+    const plan = await step.do("plan", async () => {
+      const messages = [
+        { role: "system", content: this.prompt("task.plan") },
+        { role: "user", content: goal },
+      ];
+      const text = await this.complete(userId, messages, { max_tokens: 180, temperature: 0.1 });
       const obj = safeJsonParse(text);
 
       const steps =
@@ -41,24 +254,52 @@ export class TaskWorkflow extends WorkflowEntrypoint<WorkflowEnv, TaskParams> {
       // fallback if model returns junk
       return steps ?? ["Clarify goal", "Do the main work", "Summarize output"];
     });
+    await this.publish(event.instanceId, { id: "plan", type: "plan", plan });
 
-    const result = await step.do("execute", async () => {
-      const r = await this.env.AI.run("@cf/meta/llama-3.3-70b-instruct-fp8-fast", {
-        messages: [
-          {
-            role: "system",
-            content:
-              "Return a concise final answer (max ~8 sentences). Do not repeat the plan. No 'final answer is' phrasing.",
-          },
-          { role: "user", content: `Goal: ${goal}\nPlan: ${JSON.stringify(plan)}` },
-        ],
-        max_tokens: 450,
-        temperature: 0.2,
+    // Each plan item runs as its own durable step, with earlier outputs passed forward.
+    // A step that still fails after retries is marked failed and the remaining steps go on.
+    const steps: StepResult[] = [];
+    const trace: ToolCall[] = [];
+
+    for (let n = 0; n < plan.length; n++) {
+      const title = plan[n];
+      await this.publish(event.instanceId, {
+        id: `step-${n}-running`,
+        type: "step",
+        index: n,
+        title,
+        status: "running",
       });
 
-      return String(r?.response ?? r?.output_text ?? "");
-    });
+      try {
+        const output = await this.runPlanStep(step, n, { goal, plan, title, userId, steps, trace });
+        steps.push({ title, output, status: "complete" });
+      } catch (e) {
+        steps.push({ title, output: (e as Error)?.message ?? String(e), status: "failed" });
+      }
+
+      const done = steps[n];
+      await this.publish(event.instanceId, {
+        id: `step-${n}-done`,
+        type: "step",
+        index: n,
+        title,
+        status: done.status,
+        output: done.output,
+      });
+    }
+
+    const result = await step.do("result", async () =>
+      this.complete(
+        userId,
+        [
+          { role: "system", content: this.prompt("task.result") },
+          { role: "user", content: `Goal: ${goal}\n\n${formatSteps(steps)}` },
+        ],
+        { max_tokens: 450 }
+      )
+    );
 
-    return { plan, result };
+    return { plan, steps, result, trace };
   }
 }
\ No newline at end of file
@@ -0,0 +1,205 @@
+import type { WorkflowEnv } from "./task_workflow";
+import type { ToolArgs, ToolCall } from "../shared/types";
+
+// Outbound HTTP behind an interface so tests (or a stricter policy) can swap it out
+export interface HttpFetcher {
+  get(url: string): Promise<{ status: number; body: string }>;
+}
+
+export type ToolContext = { env: WorkflowEnv; userId: string; http: HttpFetcher };
+
+export type Tool = {
+  name: string;
+  description: string;
+  args: string; // human-readable argument shape shown to the model
+  run(args: ToolArgs, ctx: ToolContext): Promise<string>;
+};
+
+// Tool results are fed back into the prompt, so keep them short
+const MAX_TOOL_OUTPUT = 2000;
+
+// http_fetch: redirects followed (each target checked like the first URL), and bytes read
+const MAX_REDIRECTS = 5;
+const MAX_HTTP_BYTES = 32 * 1024;
+
+function httpsUrl(url: string | URL): URL {
+  const parsed = new URL(url);
+  if (parsed.protocol !== "https:") throw new Error("Only https:// URLs are allowed");
+  return parsed;
+}
+
+// Reads at most `maxBytes` of the body, then cancels the rest
+async function readCapped(res: Response, maxBytes: number): Promise<string> {
+  if (!res.body) return "";
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let bytes = 0;
+  while (bytes < maxBytes) {
+    const { value, done } = await reader.read();
+    if (done) return text + decoder.decode();
+    const chunk = value.subarray(0, maxBytes - bytes);
+    bytes += chunk.byteLength;
+    text += decoder.decode(chunk, { stream: true });
+  }
+  await reader.cancel().catch(() => {});
+  return text + decoder.decode();
+}
+
+export const defaultHttpFetcher: HttpFetcher = {
+  async get(url) {
+    let target = httpsUrl(url);
+    for (let hops = 0; ; hops++) {
+      const res = await fetch(target.toString(), {
+        method: "GET",
+        headers: { accept: "text/plain, text/html, application/json" },
+        redirect: "manual",
+      });
+      const location = res.headers.get("Location");
+      if (res.status < 300 || res.status >= 400 || !location) {
+        return { status: res.status, body: await readCapped(res, MAX_HTTP_BYTES) };
+      }
+
+      await res.body?.cancel().catch(() => {});
+      if (hops >= MAX_REDIRECTS) throw new Error(`Too many redirects (max ${MAX_REDIRECTS})`);
+      target = httpsUrl(new URL(location, target));
+    }
+  },
+};
+
+/**
+ * Arithmetic only: numbers, + - * / % ^ and parentheses. A tiny recursive-descent parser,
+ * so model-provided input is never evaluated as code.
+ */
+export function evaluateExpression(input: string): number {
+  const tokens = input.match(/\d+(?:\.\d+)?|[-+*/%^()]|\S/g) ?? [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+
+  function primary(): number {
+    const t = next();
+    if (t === "(") {
+      const v = sum();
+      if (next() !== ")") throw new Error("Expected )");
+      return v;
+    }
+    if (t === "-") return -primary();
+    if (t === "+") return primary();
+    if (t !== undefined && /^\d/.test(t)) return Number(t);
+    throw new Error(`Unexpected token: ${t ?? "end of input"}`);
+  }
+
+  function power(): number {
+    const base = primary();
+    if (peek() === "^") {
+      next();
+      return base ** power(); // right-associative
+    }
+    return base;
+  }
+
+  function product(): number {
+    let v = power();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const op = next();
+      const rhs = power();
+      v = op === "*" ? v * rhs : op === "/" ? v / rhs : v % rhs;
+    }
+    return v;
+  }
+
+  function sum(): number {
+    let v = product();
+    while (peek() === "+" || peek() === "-") {
+      const op = next();
+      const rhs = product();
+      v = op === "+" ? v + rhs : v - rhs;
+    }
+    return v;
+  }
+
+  const value = sum();
+  if (pos < tokens.length) throw new Error(`Unexpected token: ${tokens[pos]}`);
+  return value;
+}
+
+export const TOOLS: Record<string, Tool> = {
+  calculator: {
+    name: "calculator",
+    description: "Evaluate an arithmetic expression.",
+    args: '{"expression": "(3 + 4) * 2"}',
+    async run(args) {
+      return String(evaluateExpression(String(args.expression ?? "")));
+    },
+  },
+
+  memory_search: {
+    name: "memory_search",
+    description: "Search the user's chat history (all conversations) for messages containing a phrase.",
+    args: '{"query": "georgia tech"}',
+    async run(args, ctx) {
+      const query = String(args.query ?? "").trim().toLowerCase();
+      if (!query) return "Error: empty query";
+
+      const stub = ctx.env.MEMORY.get(ctx.env.MEMORY.idFromName(ctx.userId));
+      const conversations = await stub.listConversations();
+
+      const hits: string[] = [];
+      for (const c of conversations) {
+        const { history } = await stub.getHistory(c.id);
+        for (const m of history) {
+          if (m.content.toLowerCase().includes(query)) hits.push(`[${c.title}] ${m.role}: ${m.content}`);
+        }
+      }
+
+      return hits.length ? hits.slice(-5).join("\n") : "No matching messages.";
+    },
+  },
+
+  previous_task: {
+    name: "previous_task",
+    description: "Look up the status and output of a previous task by its id.",
+    args: '{"taskId": "<uuid>"}',
+    async run(args, ctx) {
+      const taskId = String(args.taskId ?? "").trim();
+      if (!taskId) return "Error: missing taskId";
+
+      // Only the user's own tasks (their registry), as for a chat turn's taskId
+      const stub = ctx.env.MEMORY.get(ctx.env.MEMORY.idFromName(ctx.userId));
+      if (!(await stub.getTask(taskId))) return `Error: no task ${taskId}`;
+
+      const instance = await ctx.env.TASK_WORKFLOW.get(taskId);
+      return JSON.stringify(await instance.status());
+    },
+  },
+
+  http_fetch: {
+    name: "http_fetch",
+    description: "GET an https:// URL and return the response body (truncated).",
+    args: '{"url": "https://example.com"}',
+    async run(args, ctx) {
+      const { status, body } = await ctx.http.get(String(args.url ?? ""));
+      return `HTTP ${status}\n${body}`;
+    },
+  },
+};
+
+export function describeTools(): string {
+  return Object.values(TOOLS)
+    .map((t) => `- ${t.name}: ${t.description} Args: ${t.args}`)
+    .join("\n");
+}
+
+// Tool failures are returned to the model as text instead of failing the workflow step
+export async function runTool(call: Pick<ToolCall, "tool" | "args">, ctx: ToolContext): Promise<string> {
+  const tool = TOOLS[call.tool];
+  if (!tool) return `Error: unknown tool "${call.tool}"`;
+
+  try {
+    return (await tool.run(call.args, ctx)).slice(0, MAX_TOOL_OUTPUT);
+  } catch (e) {
+    return `Error: ${(e as Error)?.message ?? String(e)}`;
+  }
+}
@@ -0,0 +1,71 @@
+// Structured request logs. Every /api/* request gets an id (sent back as X-Request-Id) and one
+// JSON log line when it finishes (for streams: when the stream ends), which Workers Logs indexes
+// by field (`observability.enabled` in wrangler.jsonc).
+
+export type Trace = {
+  requestId: string;
+  method: string;
+  route: string;
+  start: number;
+  user?: string; // set once the session is checked
+  model?: string; // the model that answered (after fallbacks)
+  tokens: number; // cost-weighted, as charged against the daily quota
+  ttftMs?: number; // streams: time to the first text from the model
+  error?: string;
+  // Set by routes that finish after their response is returned (streams); they call the finish hook
+  deferred?: boolean;
+};
+
+// Longest error text kept in a log line
+const MAX_ERROR_CHARS = 300;
+
+export function startTrace(request: Request, url: URL): Trace {
+  return {
+    requestId: crypto.randomUUID(),
+    method: request.method,
+    route: url.pathname,
+    start: Date.now(),
+    tokens: 0,
+  };
+}
+
+// Records the first error only: later ones are usually consequences of it
+export function traceError(trace: Trace, error: unknown) {
+  if (trace.error) return;
+  const message = error instanceof Error ? error.message : String(error);
+  trace.error = message.slice(0, MAX_ERROR_CHARS);
+}
+
+// Writes the log line; returns the request's latency in ms
+export function logTrace(trace: Trace, status: number): number {
+  const latencyMs = Date.now() - trace.start;
+  const line = JSON.stringify({
+    type: "request",
+    requestId: trace.requestId,
+    method: trace.method,
+    route: trace.route,
+    status,
+    user: trace.user ?? null,
+    model: trace.model ?? null,
+    latencyMs,
+    ttftMs: trace.ttftMs ?? null,
+    tokens: Math.ceil(trace.tokens),
+    error: trace.error ?? null,
+  });
+  if (status >= 500) console.error(line);
+  else console.log(line);
+  return latencyMs;
+}
+
+// The same response with the request id header (a copy: fetch responses are immutable; a
+// WebSocket upgrade keeps its socket)
+export function withRequestId(response: Response, trace: Trace): Response {
+  const headers = new Headers(response.headers);
+  headers.set("X-Request-Id", trace.requestId);
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    webSocket: response.webSocket,
+  });
+}
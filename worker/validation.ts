@@ -0,0 +1,125 @@
+import { RequestError } from "./errors";
+import { MAX_PERSONA_NAME_CHARS, MAX_PROMPT_CHARS } from "./prompts";
+
+// Request body checks: each route reads its JSON through readJson, with a schema of the fields it
+// uses (other bodies through readText, for the size limit). Unknown fields are ignored; `params` is
+// checked in detail by selectModel, prompt texts by checkTemplate.
+
+// JSON bodies, unless the route allows more (documents)
+export const MAX_JSON_BYTES = 64 * 1024;
+// A chat message or edited message
+export const MAX_MESSAGE_CHARS = 16_000;
+export const MAX_GOAL_CHARS = 2000;
+// Conversation, task, persona and similar ids
+export const MAX_ID_CHARS = 100;
+export const MAX_TITLE_CHARS = 200;
+
+// Required strings must not be blank; `max` is in characters
+type FieldSpec =
+  | { type: "string"; required?: boolean; max?: number }
+  | { type: "integer"; required?: boolean }
+  | { type: "object"; required?: boolean };
+
+export type Schema = Record<string, FieldSpec>;
+
+const ID: FieldSpec = { type: "string", max: MAX_ID_CHARS };
+const REQUIRED_ID: FieldSpec = { type: "string", required: true, max: MAX_ID_CHARS };
+
+// The fields every chat turn takes besides its message
+const TURN_FIELDS: Schema = {
+  conversationId: ID,
+  taskId: ID,
+  model: { type: "string", max: MAX_ID_CHARS },
+  params: { type: "object" },
+};
+
+export const SCHEMAS = {
+  chat: { ...TURN_FIELDS, message: { type: "string", required: true, max: MAX_MESSAGE_CHARS } },
+  regenerate: TURN_FIELDS,
+  edit: {
+    ...TURN_FIELDS,
+    messageId: { type: "integer", required: true },
+    content: { type: "string", required: true, max: MAX_MESSAGE_CHARS },
+  },
+  continue: { ...TURN_FIELDS, messageId: { type: "integer", required: true } },
+  stop: { questionId: { type: "integer", required: true } },
+  task: {
+    goal: { type: "string", required: true, max: MAX_GOAL_CHARS },
+    model: { type: "string", max: MAX_ID_CHARS },
+    params: { type: "object" },
+  },
+  taskControl: { instanceId: REQUIRED_ID },
+  id: { id: REQUIRED_ID },
+  branch: { conversationId: REQUIRED_ID, messageId: { type: "integer", required: true } },
+  newConversation: { title: { type: "string", max: MAX_TITLE_CHARS } },
+  rename: { conversationId: REQUIRED_ID, title: { type: "string", required: true, max: MAX_TITLE_CHARS } },
+  conversation: { conversationId: REQUIRED_ID },
+  persona: {
+    id: ID,
+    name: { type: "string", max: MAX_PERSONA_NAME_CHARS },
+    prompt: { type: "string", required: true, max: MAX_PROMPT_CHARS },
+  },
+  prompt: { key: REQUIRED_ID, text: { type: "string", required: true, max: MAX_PROMPT_CHARS } },
+} satisfies Record<string, Schema>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// What is wrong with `body`, or null
+export function checkFields(body: Record<string, unknown>, schema: Schema): string | null {
+  for (const [name, spec] of Object.entries(schema)) {
+    const value = body[name];
+    if (value === undefined) {
+      if (spec.required) return `${name} is required`;
+      continue;
+    }
+    switch (spec.type) {
+      case "string":
+        if (typeof value !== "string") return `${name} must be a string`;
+        if (spec.required && !value.trim()) return `${name} is required`;
+        if (spec.max !== undefined && value.length > spec.max) {
+          return `${name} is too long (max ${spec.max} characters)`;
+        }
+        break;
+      case "integer":
+        if (!Number.isInteger(value)) return `${name} must be an integer`;
+        break;
+      case "object":
+        if (!isRecord(value)) return `${name} must be an object`;
+        break;
+    }
+  }
+  return null;
+}
+
+// The body as text; a RequestError (413) past `maxBytes`, by Content-Length before reading it
+export async function readText(request: Request, maxBytes = MAX_JSON_BYTES): Promise<string> {
+  const tooLarge = () => new RequestError(413, `Request body too large (max ${maxBytes} bytes)`);
+  if (Number(request.headers.get("Content-Length")) > maxBytes) throw tooLarge();
+
+  const text = await request.text();
+  if (new TextEncoder().encode(text).byteLength > maxBytes) throw tooLarge();
+  return text;
+}
+
+/**
+ * Reads a JSON object body of at most `maxBytes` and checks it against `schema`. Throws a
+ * RequestError (413 when too large, else 400), which the Worker answers with an error response.
+ */
+export async function readJson<T>(request: Request, schema: Schema = {}, maxBytes = MAX_JSON_BYTES): Promise<T> {
+  const text = await readText(request, maxBytes);
+  if (!text.trim()) throw new RequestError(400, "Request body is empty (expected JSON)");
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new RequestError(400, "Request body is not valid JSON");
+  }
+  if (!isRecord(body)) throw new RequestError(400, "Request body must be a JSON object");
+
+  const problem = checkFields(body, schema);
+  if (problem) throw new RequestError(400, problem);
+  return body as T;
+}